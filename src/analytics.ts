@@ -0,0 +1,212 @@
+import { Fightcade } from './fightcade-api.ts';
+import { same } from './internal.ts';
+
+/**
+ * Win/Loss Record
+ *
+ * @param sets - Amount of scored and cancelled sets
+ * @param wins - Amount of sets won
+ * @param losses - Amount of sets lost
+ * @param draws - Amount of sets with equal scores
+ * @param cancelled - Amount of cancelled ranked sets, which count as neither win nor loss
+ * @param winRate - `wins / (wins + losses)`, `0` if no set was decided
+ */
+export type RecordStats = {
+  sets: number,
+  wins: number,
+  losses: number,
+  draws: number,
+  cancelled: number,
+  winRate: number,
+};
+
+/**
+ * Win or Loss Streak
+ *
+ * @param result - Streak Kind
+ * @param length - Amount of consecutive sets
+ * @param from - Millisecond Epoch Timestamp Date of the first set of the streak
+ * @param to - Millisecond Epoch Timestamp Date of the last set of the streak
+ */
+export type Streak = {
+  result: 'win' | 'loss',
+  length: number,
+  from: number,
+  to: number,
+};
+
+/**
+ * Outcome of a single Replay from a User's point of view
+ *
+ * @param replay - Fightcade Replay
+ * @param opponent - Opponent's Fightcade Username
+ * @param result - Set Result
+ * @param score - User's Score
+ * @param opponentScore - Opponent's Score
+ */
+export type SetResult = {
+  replay: Fightcade.Replay,
+  opponent: string,
+  result: 'win' | 'loss' | 'draw' | 'cancelled',
+  score: number,
+  opponentScore: number,
+};
+
+/**
+ * Matchup Statistics of a Fightcade User
+ *
+ * @param username - Fightcade Username
+ * @param overall - Record across every set
+ * @param byGame - Records per Fightcade ROM Name
+ * @param byOpponent - Records per Opponent Username
+ * @param scores - Amount of sets per final score, keyed `'<score>-<opponentScore>'` from the user's point of view
+ * @param streaks - Current, longest win and longest loss streaks, ignoring draws and cancelled sets
+ * @param skipped - Amount of Replays without scores or without the user, e.g. unranked sessions
+ */
+export type UserStats = {
+  username: string,
+  overall: RecordStats,
+  byGame: Record<string, RecordStats>,
+  byOpponent: Record<string, RecordStats>,
+  scores: Record<string, number>,
+  streaks: {
+    current: Streak | null,
+    longestWin: Streak | null,
+    longestLoss: Streak | null,
+  },
+  skipped: number,
+};
+
+/**
+ * `GetUserStats()` Arguments
+ *
+ * @param opponent - `default: undefined` Only include sets against this Fightcade Username
+ * @param gameid - `default: undefined` Only include sets of this Fightcade ROM Name
+ * @param ranked - `default: false` Only request Ranked Replays
+ * @param since - `default: 0` Only include Replays after this Millisecond Epoch Timestamp Date
+ * @param maxReplays - `default: Infinity` Maximum Amount of Replays to request
+ * @param client - `default: Fightcade` Fightcade Client used to request the Replay history
+ */
+export type UserStatsArgs = {
+  opponent?: string,
+  gameid?: string,
+  ranked?: boolean,
+  since?: number,
+  maxReplays?: number,
+  client?: Pick<Fightcade.Client, 'IterateUserReplays'>,
+};
+
+const emptyRecord = (): RecordStats => ({sets: 0, wins: 0, losses: 0, draws: 0, cancelled: 0, winRate: 0});
+
+const addResult = (record: RecordStats, result: SetResult['result']) => {
+  record.sets++;
+  if (result === 'win') record.wins++;
+  else if (result === 'loss') record.losses++;
+  else if (result === 'draw') record.draws++;
+  else record.cancelled++;
+  record.winRate = (record.wins + record.losses) ? record.wins / (record.wins + record.losses) : 0;
+};
+
+/**
+ * Get the Outcome of a Replay from a User's point of view
+ *
+ * @param username - Fightcade Username
+ * @param replay - Fightcade Replay
+ * @returns `null` if the user did not play or the Replay has no scores
+ *
+ * @example
+ * ```js
+ * // Print the result of the replay '1638725293444-1085' for the user 'biggs'.
+ * const replay = await Fightcade.GetReplay('1638725293444-1085');
+ * const set = GetSetResult('biggs', replay);
+ * if (set) console.log(`${set.result} ${set.score}-${set.opponentScore} vs ${set.opponent}`);
+ * ```
+ */
+export function GetSetResult(username: string, replay: Fightcade.Replay): SetResult | null {
+  const player = replay.players.find(player => same(player.name, username));
+  const opponent = replay.players.find(other => other !== player);
+  if (!player || !opponent) return null;
+  if (replay.ranked === 'cancelled') return {replay, opponent: opponent.name, result: 'cancelled', score: player.score ?? 0, opponentScore: opponent.score ?? 0};
+  if (typeof player.score !== 'number' || typeof opponent.score !== 'number') return null;
+  const result = (player.score > opponent.score) ? 'win' : (player.score < opponent.score) ? 'loss' : 'draw';
+  return {replay, opponent: opponent.name, result, score: player.score, opponentScore: opponent.score};
+}
+
+/**
+ * Compute Matchup Statistics of a Fightcade User from Replays
+ *
+ * @param username - Fightcade Username
+ * @param replays - Fightcade Replays in any order
+ * @param args.opponent - `default: undefined` Only include sets against this Fightcade Username
+ * @param args.gameid - `default: undefined` Only include sets of this Fightcade ROM Name
+ *
+ * @example
+ * ```js
+ * // Print the win rate per game of the user 'biggs' over their 100 most recent replays.
+ * const replays = await Fightcade.GetUserReplays('biggs', {limit: 100});
+ * const stats = ComputeUserStats('biggs', replays);
+ * Object.entries(stats.byGame).forEach(([gameid, record]) => console.log(`${gameid}: ${Math.round(record.winRate * 100)}%`));
+ * ```
+ */
+export function ComputeUserStats(username: string, replays: Fightcade.Replay[], args: {opponent?: string, gameid?: string} = {}): UserStats {
+  const stats: UserStats = {
+    username,
+    overall: emptyRecord(),
+    byGame: {},
+    byOpponent: {},
+    scores: {},
+    streaks: {current: null, longestWin: null, longestLoss: null},
+    skipped: 0,
+  };
+
+  const sets: SetResult[] = [];
+  for (const replay of replays) {
+    if (args.gameid !== undefined && replay.gameid !== args.gameid) continue;
+    const set = GetSetResult(username, replay);
+    if (!set) stats.skipped++;
+    else if (args.opponent === undefined || same(set.opponent, args.opponent)) sets.push(set);
+  }
+  sets.sort((a, b) => a.replay.date - b.replay.date);
+
+  // Opponent names are keyed by their first seen spelling.
+  const opponents = new Map<string, string>();
+  for (const set of sets) {
+    if (!opponents.has(set.opponent.toLowerCase())) opponents.set(set.opponent.toLowerCase(), set.opponent);
+    const opponent = opponents.get(set.opponent.toLowerCase())!;
+    addResult(stats.overall, set.result);
+    addResult(stats.byGame[set.replay.gameid] ??= emptyRecord(), set.result);
+    addResult(stats.byOpponent[opponent] ??= emptyRecord(), set.result);
+    if (set.result === 'cancelled') continue;
+    const score = `${set.score}-${set.opponentScore}`;
+    stats.scores[score] = (stats.scores[score] ?? 0) + 1;
+    if (set.result === 'draw') continue;
+
+    const {current} = stats.streaks;
+    stats.streaks.current = (current?.result === set.result)
+      ? {...current, length: current.length + 1, to: set.replay.date}
+      : {result: set.result, length: 1, from: set.replay.date, to: set.replay.date};
+    const longest = (set.result === 'win') ? 'longestWin' : 'longestLoss';
+    if (stats.streaks.current.length > (stats.streaks[longest]?.length ?? 0)) stats.streaks[longest] = stats.streaks.current;
+  }
+  return stats;
+}
+
+/**
+ * Get Matchup Statistics of a Fightcade User from their Replay history
+ *
+ * @param username - Fightcade Username
+ * @param args - `GetUserStats()` Arguments
+ *
+ * @example
+ * ```js
+ * // Print the ranked head-to-head record between the users 'biggs' and 'foo' in 'umk3'.
+ * const stats = await GetUserStats('biggs', {opponent: 'foo', gameid: 'umk3', ranked: true});
+ * console.log(`${stats.overall.wins}-${stats.overall.losses} (${stats.overall.cancelled} cancelled)`);
+ * ```
+ */
+export async function GetUserStats(username: string, args: UserStatsArgs = {}): Promise<UserStats> {
+  const {client = Fightcade, maxReplays = Infinity, opponent, gameid, ...query} = args;
+  const replays: Fightcade.Replay[] = [];
+  for await (const replay of client.IterateUserReplays(username, {...query, pageSize: 100, maxItems: maxReplays})) replays.push(replay);
+  return ComputeUserStats(username, replays, args);
+}
@@ -0,0 +1,255 @@
+import { Fightcade } from './fightcade-api.ts';
+import { same } from './internal.ts';
+import { appendJsonLines, readJsonLines } from './jsonl.ts';
+import { toNormalizedCountry } from './normalize.ts';
+
+/**
+ * Archive Store Contents
+ *
+ * @param replays - Archived Fightcade Replays, possibly with duplicates
+ * @param cursors - Newest synced Millisecond Epoch Timestamp Date per feed key, e.g. `'user:biggs'` or `'game:umk3'`
+ */
+export type ArchiveData = {
+  replays: Fightcade.Replay[],
+  cursors: Record<string, number>,
+};
+
+/**
+ * Replay Archive Store
+ *
+ * Stores only ever grow, so an append-only file can back a store. The archive de-duplicates replays on load.
+ */
+export type ArchiveStore = {
+  load(): ArchiveData | Promise<ArchiveData>,
+  append(data: ArchiveData): void | Promise<void>,
+};
+
+/**
+ * Replay Archive Query
+ *
+ * @param player - Only include Replays of this Fightcade Username
+ * @param opponent - Only include Replays against this Fightcade Username
+ * @param gameid - Only include Replays of this Fightcade ROM Name
+ * @param emulator - Only include Replays of this Emulator
+ * @param ranked - Only include Ranked (`true`), unranked (`false`) or cancelled (`'cancelled'`) Replays
+ * @param country - Only include Replays where `player`, or any player without `player`, is from this Country Code or Name
+ * @param from - Only include Replays at or after this Millisecond Epoch Timestamp Date
+ * @param to - Only include Replays before this Millisecond Epoch Timestamp Date
+ * @param order - `default: 'newest'` Sort Order
+ * @param offset - `default: 0` Amount of matching Replays to skip
+ * @param limit - `default: Infinity` Maximum Amount of Replays to return
+ */
+export type ArchiveQuery = {
+  player?: string,
+  opponent?: string,
+  gameid?: string,
+  emulator?: string,
+  ranked?: boolean | 'cancelled',
+  country?: string,
+  from?: number,
+  to?: number,
+  order?: 'newest' | 'oldest',
+  offset?: number,
+  limit?: number,
+};
+
+/**
+ * Replay Archive Sync Result
+ *
+ * @param added - Amount of Replays that were not archived before
+ * @param feeds - Amount of added Replays per feed key
+ * @param errors - Error per feed key that failed to sync, the other feeds are still synced
+ */
+export type SyncResult = {
+  added: number,
+  feeds: Record<string, number>,
+  errors: Record<string, unknown>,
+};
+
+/**
+ * `createArchive()` Arguments
+ *
+ * @param store - `default: createMemoryArchiveStore()` Replay Archive Store
+ * @param users - `default: []` Fightcade Usernames whose Replays are synced
+ * @param games - `default: []` Fightcade ROM Names whose Replays are synced
+ * @param ranked - `default: false` Only sync Ranked Replays
+ * @param since - `default: 0` Millisecond Epoch Timestamp Date the first sync of a feed starts at
+ * @param lookback - `default: 1800000` Milliseconds every sync looks back before its feed's newest archived Replay, since replays are only listed once finished
+ * @param client - `default: Fightcade` Fightcade Client used to sync
+ */
+export type ArchiveArgs = {
+  store?: ArchiveStore,
+  users?: string[],
+  games?: string[],
+  ranked?: boolean,
+  since?: number,
+  lookback?: number,
+  client?: Pick<Fightcade.Client, 'IterateReplays' | 'IterateUserReplays'>,
+};
+
+/**
+ * Replay Archive
+ *
+ * @param sync - Request every feed's Replays since its newest archived one and store the new ones
+ * @param query - Query the archived Replays
+ * @param get - Get an archived Replay by Challenge ID
+ * @param size - Amount of archived Replays
+ */
+export type Archive = {
+  sync(): Promise<SyncResult>,
+  query(query?: ArchiveQuery): Promise<Fightcade.Replay[]>,
+  get(quarkid: string): Promise<Fightcade.Replay | undefined>,
+  size(): Promise<number>,
+};
+
+/**
+ * Create an in-memory Replay Archive Store
+ */
+export function createMemoryArchiveStore(): ArchiveStore {
+  const data: ArchiveData = {replays: [], cursors: {}};
+  return {
+    load: () => ({replays: [...data.replays], cursors: {...data.cursors}}),
+    append(appended) {
+      data.replays.push(...appended.replays);
+      Object.assign(data.cursors, appended.cursors);
+    },
+  };
+}
+
+/**
+ * Create a JSON-Lines Replay Archive Store
+ *
+ * Every line holds either `{"replay": Replay}` or `{"cursor": key, "date": number}`, later cursors override earlier ones.
+ *
+ * @param path - JSON-Lines File Path, created on the first append
+ */
+export function createJsonLinesArchiveStore(path: string): ArchiveStore {
+  return {
+    async load() {
+      const data: ArchiveData = {replays: [], cursors: {}};
+      for (const record of await readJsonLines<{replay?: Fightcade.Replay, cursor?: string, date?: number}>(path)) {
+        if (record.replay) data.replays.push(record.replay);
+        else if (record.cursor !== undefined && record.date !== undefined) data.cursors[record.cursor] = record.date;
+      }
+      return data;
+    },
+    async append({replays, cursors}) {
+      await appendJsonLines(path, [
+        ...replays.map(replay => ({replay})),
+        ...Object.entries(cursors).map(([cursor, date]) => ({cursor, date})),
+      ]);
+    },
+  };
+}
+
+const rankedStatus = (replay: Fightcade.Replay) => (replay.ranked === 'cancelled') ? 'cancelled' : Boolean(replay.ranked);
+
+const fromCountry = (player: Fightcade.Player, country: string) => {
+  const {code, name} = toNormalizedCountry(player.country);
+  return same(name, country) || (code !== null && same(code, country));
+};
+
+function matches(replay: Fightcade.Replay, query: ArchiveQuery): boolean {
+  const {player, opponent, gameid, emulator, ranked, country, from, to} = query;
+  if (gameid !== undefined && replay.gameid !== gameid) return false;
+  if (emulator !== undefined && replay.emulator !== emulator) return false;
+  if (ranked !== undefined && rankedStatus(replay) !== ranked) return false;
+  if (from !== undefined && replay.date < from) return false;
+  if (to !== undefined && replay.date >= to) return false;
+  const self = (player === undefined) ? undefined : replay.players.find(other => same(other.name, player));
+  if (player !== undefined && !self) return false;
+  if (opponent !== undefined && !replay.players.some(other => other !== self && same(other.name, opponent))) return false;
+  if (country !== undefined && !(self ? [self] : replay.players).some(other => fromCountry(other, country))) return false;
+  return true;
+}
+
+/**
+ * Create a Replay Archive that syncs Replays of users and games into a local store
+ *
+ * Every user and game is a feed with its own cursor, so a feed resumes from its own newest archived Replay.
+ * Replays are de-duplicated by `quarkid`, including Replays that belong to several feeds.
+ *
+ * @param args - `createArchive()` Arguments
+ *
+ * @example
+ * ```js
+ * // Sync the replays of two players and print their ranked sets of 2024.
+ * const archive = createArchive({store: createJsonLinesArchiveStore('./replays.jsonl'), users: ['biggs', 'foo']});
+ * await archive.sync();
+ * const sets = await archive.query({player: 'biggs', opponent: 'foo', ranked: true, from: Date.UTC(2024, 0), to: Date.UTC(2025, 0)});
+ * sets.forEach(replay => console.log(replay.quarkid));
+ * ```
+ */
+export function createArchive(args: ArchiveArgs = {}): Archive {
+  const {store = createMemoryArchiveStore(), users = [], games = [], since = 0, lookback = 30 * 60 * 1000, client = Fightcade} = args;
+  const ranked = (args.ranked !== undefined) ? {ranked: args.ranked} : {};
+
+  type Feed = {key: string, iterate: (from: number) => AsyncIterable<Fightcade.Replay>};
+  const feeds: Feed[] = [
+    ...users.map(username => ({key: `user:${username.toLowerCase()}`, iterate: (from: number) => client.IterateUserReplays(username, {...ranked, since: from, pageSize: 100})})),
+    ...games.map(gameid => ({key: `game:${gameid}`, iterate: (from: number) => client.IterateReplays({...ranked, gameid, since: from, pageSize: 100})})),
+  ];
+
+  let loading: Promise<{replays: Map<string, Fightcade.Replay>, cursors: Record<string, number>}> | undefined;
+  let sorted: Fightcade.Replay[] | undefined;
+  const load = () => loading ??= (async () => {
+    const data = await store.load();
+    return {replays: new Map(data.replays.map(replay => [replay.quarkid, replay])), cursors: {...data.cursors}};
+  })().catch(e => {
+    // Let the next call load the store again instead of failing forever.
+    loading = undefined;
+    throw e;
+  });
+  // Queries share one newest-first copy that is only sorted again after a sync added replays.
+  const newestFirst = async () => sorted ??= [...(await load()).replays.values()].sort((a, b) => b.date - a.date);
+
+  // Feeds are synced one after another so two feeds never store the same new replay twice.
+  let syncing = Promise.resolve();
+
+  return {
+    sync() {
+      const run = async (): Promise<SyncResult> => {
+        const {replays, cursors} = await load();
+        const result: SyncResult = {added: 0, feeds: {}, errors: {}};
+        for (const feed of feeds) {
+          const cursor = cursors[feed.key];
+          let newest = cursor ?? since;
+          const added = new Map<string, Fightcade.Replay>();
+          try {
+            for await (const replay of feed.iterate((cursor === undefined) ? since : Math.max(since, cursor - lookback))) {
+              newest = Math.max(newest, replay.date);
+              if (!replays.has(replay.quarkid)) added.set(replay.quarkid, replay);
+            }
+          } catch (e) {
+            result.errors[feed.key] = e;
+          }
+          // A failed feed keeps its cursor so the next sync requests its gap again.
+          const advanced = !(feed.key in result.errors) && newest !== cursor;
+          // Replays are only archived once stored, so a failed append does not leave them in memory only.
+          await store.append({replays: [...added.values()], cursors: advanced ? {[feed.key]: newest} : {}});
+          for (const [quarkid, replay] of added) replays.set(quarkid, replay);
+          if (advanced) cursors[feed.key] = newest;
+          if (added.size) sorted = undefined;
+          result.feeds[feed.key] = added.size;
+          result.added += added.size;
+        }
+        return result;
+      };
+      const result = syncing.then(run);
+      syncing = result.then(() => undefined, () => undefined);
+      return result;
+    },
+    async query(query = {}) {
+      const {order = 'newest', offset = 0, limit = Infinity} = query;
+      const replays = (await newestFirst()).filter(replay => matches(replay, query));
+      if (order === 'oldest') replays.reverse();
+      return replays.slice(offset, offset + limit);
+    },
+    async get(quarkid) {
+      return (await load()).replays.get(quarkid);
+    },
+    async size() {
+      return (await load()).replays.size;
+    },
+  };
+}
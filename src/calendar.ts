@@ -0,0 +1,295 @@
+import { Fightcade } from './fightcade-api.ts';
+
+/**
+ * Event Filter
+ *
+ * @param gameid - Only include Events of this Fightcade ROM Name or of any of a list
+ * @param region - Only include Events of this Region or of any of a list, case-insensitive
+ * @param from - Only include Events at or after this Millisecond Epoch Timestamp Date
+ * @param to - Only include Events before this Millisecond Epoch Timestamp Date
+ */
+export type EventFilter = {
+  gameid?: string | string[],
+  region?: string | string[],
+  from?: number,
+  to?: number,
+};
+
+/**
+ * iCalendar Options
+ *
+ * Dates are always written in UTC, so calendar applications show them in their user's timezone.
+ *
+ * @param name - `default: 'Fightcade Events'` Calendar Name
+ * @param duration - `default: 7200000` Event Duration in Milliseconds, since Fightcade Events have no end
+ * @param domain - `default: 'fightcade.com'` Domain of the Event UIDs
+ * @param timeZone - IANA Timezone suggested to calendar applications and used for dates in descriptions
+ * @param now - `default: Date.now()` Millisecond Epoch Timestamp Date of the export
+ */
+export type CalendarOptions = {
+  name?: string,
+  duration?: number,
+  domain?: string,
+  timeZone?: string,
+  now?: number,
+};
+
+/**
+ * RSS and Atom Feed Options
+ *
+ * @param title - `default: 'Fightcade Events'` Feed Title
+ * @param link - `default: 'https://www.fightcade.com/'` Website the Feed belongs to
+ * @param self - URL the Feed is served at
+ * @param description - `default: 'Upcoming Fightcade community events'` Feed Description
+ * @param domain - `default: 'fightcade.com'` Domain of the Entry IDs
+ * @param timeZone - IANA Timezone used for dates in descriptions, dates in the feed are always UTC
+ * @param now - `default: Date.now()` Millisecond Epoch Timestamp Date of the export, also the `updated` date of every Atom entry
+ */
+export type FeedOptions = {
+  title?: string,
+  link?: string,
+  self?: string,
+  description?: string,
+  domain?: string,
+  timeZone?: string,
+  now?: number,
+};
+
+/**
+ * Event Export Format
+ */
+export type EventFormat = 'ics' | 'rss' | 'atom';
+
+/**
+ * `ExportEvents()` Arguments
+ *
+ * @param format - Export Format
+ * @param maxItems - `default: Infinity` Maximum Amount of Events to request
+ * @param options - Calendar or Feed Options of the format
+ * @param client - `default: Fightcade` Fightcade Client used to request Events
+ */
+export type ExportEventsArgs = EventFilter & {
+  format: EventFormat,
+  maxItems?: number,
+  options?: CalendarOptions & FeedOptions,
+  client?: Pick<Fightcade.Client, 'IterateEvents'>,
+};
+
+const list = (value: string | string[]) => [value].flat().map(item => item.toLowerCase());
+
+/**
+ * Filter Fightcade Events by Game, Region and Date
+ *
+ * @param events - Fightcade Events
+ * @param filter - Event Filter
+ */
+export function FilterEvents(events: Fightcade.Event[], filter: EventFilter = {}): Fightcade.Event[] {
+  const {gameid, region, from, to} = filter;
+  return events.filter(event =>
+    (gameid === undefined || [gameid].flat().includes(event.gameid))
+    && (region === undefined || list(region).includes(event.region.toLowerCase()))
+    && (from === undefined || event.date >= from)
+    && (to === undefined || event.date < to));
+}
+
+// FNV-1a keeps UIDs stable across exports without depending on a crypto implementation.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(text)) h = Math.imul(h ^ byte, 0x01000193) >>> 0;
+  return h.toString(16).padStart(8, '0');
+};
+
+/**
+ * Get the stable ID of a Fightcade Event, derived from its game, date and name
+ *
+ * @param event - Fightcade Event
+ */
+export function GetEventID(event: Fightcade.Event): string {
+  return `${event.gameid}-${event.date}-${hash(event.name)}`;
+}
+
+const formatDate = (date: number, timeZone?: string) => {
+  const text = new Intl.DateTimeFormat('en-US', {dateStyle: 'full', timeStyle: 'short', timeZone: timeZone ?? 'UTC'}).format(date);
+  return (timeZone === undefined) ? `${text} UTC` : `${text} (${timeZone})`;
+};
+
+const details = (event: Fightcade.Event, timeZone?: string) => [
+  `${event.gameid} event by ${event.author} (${event.region})`,
+  `Starts: ${formatDate(event.date, timeZone)}`,
+  `Link: ${event.link}`,
+  ...(event.stream ? [`Stream: ${event.stream}`] : []),
+].join('\n');
+
+const icsDate = (date: number) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string) => text.replace(/[\\;,]/g, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+
+// RFC 5545 limits lines to 75 octets, continuation lines start with a space.
+const fold = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).byteLength;
+    if (octets + size > (lines.length ? 74 : 75)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  return [...lines, current].join('\r\n ');
+};
+
+/**
+ * Export Fightcade Events as an RFC 5545 iCalendar
+ *
+ * @param events - Fightcade Events
+ * @param options - iCalendar Options
+ *
+ * @example
+ * ```js
+ * // Write the active 'garou' events to a calendar file.
+ * const events = await Fightcade.GetEvents({gameid: 'garou'});
+ * await writeFile('garou.ics', ToICalendar(events, {name: 'Garou Events', timeZone: 'America/New_York'}));
+ * ```
+ */
+export function ToICalendar(events: Fightcade.Event[], options: CalendarOptions = {}): string {
+  const {name = 'Fightcade Events', duration = 2 * 60 * 60 * 1000, domain = 'fightcade.com', timeZone, now = Date.now()} = options;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//fightcade-api//Fightcade Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(name)}`,
+    ...(timeZone === undefined ? [] : [`X-WR-TIMEZONE:${timeZone}`]),
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${GetEventID(event)}@${domain}`,
+      `DTSTAMP:${icsDate(now)}`,
+      `DTSTART:${icsDate(event.date)}`,
+      `DTEND:${icsDate(event.date + duration)}`,
+      `SUMMARY:${icsText(event.name)}`,
+      `DESCRIPTION:${icsText(details(event, timeZone))}`,
+      `LOCATION:${icsText(event.stream ?? event.link)}`,
+      `URL:${event.link}`,
+      `CATEGORIES:${[event.gameid, event.region].map(icsText).join(',')}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+}
+
+const xml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Export Fightcade Events as an RSS 2.0 Feed
+ *
+ * @param events - Fightcade Events
+ * @param options - Feed Options
+ *
+ * @example
+ * ```js
+ * // Serve the active events as an RSS feed.
+ * const rss = ToRSS(await Fightcade.GetEvents(), {self: 'https://example.com/events.rss'});
+ * ```
+ */
+export function ToRSS(events: Fightcade.Event[], options: FeedOptions = {}): string {
+  const {title = 'Fightcade Events', link = 'https://www.fightcade.com/', self, description = 'Upcoming Fightcade community events', domain = 'fightcade.com', timeZone, now = Date.now()} = options;
+  const items = events.map(event => [
+    '    <item>',
+    `      <title>${xml(event.name)}</title>`,
+    `      <link>${xml(event.link)}</link>`,
+    `      <guid isPermaLink="false">${xml(`${GetEventID(event)}@${domain}`)}</guid>`,
+    `      <pubDate>${new Date(event.date).toUTCString()}</pubDate>`,
+    `      <dc:creator>${xml(event.author)}</dc:creator>`,
+    `      <category>${xml(event.gameid)}</category>`,
+    `      <category>${xml(event.region)}</category>`,
+    `      <description>${xml(details(event, timeZone))}</description>`,
+    '    </item>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${xml(title)}</title>`,
+    `    <link>${xml(link)}</link>`,
+    `    <description>${xml(description)}</description>`,
+    ...(self === undefined ? [] : [`    <atom:link href="${xml(self)}" rel="self" type="application/rss+xml"/>`]),
+    `    <lastBuildDate>${new Date(now).toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export Fightcade Events as an Atom Feed
+ *
+ * @param events - Fightcade Events
+ * @param options - Feed Options
+ *
+ * @example
+ * ```js
+ * // Serve the active 'umk3' events as an Atom feed.
+ * const atom = ToAtom(await Fightcade.GetEvents({gameid: 'umk3'}), {title: 'UMK3 Events', self: 'https://example.com/umk3.atom'});
+ * ```
+ */
+export function ToAtom(events: Fightcade.Event[], options: FeedOptions = {}): string {
+  const {title = 'Fightcade Events', link = 'https://www.fightcade.com/', self, description = 'Upcoming Fightcade community events', domain = 'fightcade.com', timeZone, now = Date.now()} = options;
+  const entries = events.map(event => [
+    '  <entry>',
+    `    <id>${xml(`urn:${domain}:event:${GetEventID(event)}`)}</id>`,
+    `    <title>${xml(event.name)}</title>`,
+    `    <link href="${xml(event.link)}"/>`,
+    ...(event.stream ? [`    <link rel="related" href="${xml(event.stream)}"/>`] : []),
+    // Event dates lie in the future, so entries are dated by the export and the start is part of the summary.
+    `    <updated>${new Date(now).toISOString()}</updated>`,
+    `    <author><name>${xml(event.author)}</name></author>`,
+    `    <category term="${xml(event.gameid)}"/>`,
+    `    <category term="${xml(event.region)}"/>`,
+    `    <summary>${xml(details(event, timeZone))}</summary>`,
+    '  </entry>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${xml(self ?? link)}</id>`,
+    `  <title>${xml(title)}</title>`,
+    `  <subtitle>${xml(description)}</subtitle>`,
+    `  <link href="${xml(link)}"/>`,
+    ...(self === undefined ? [] : [`  <link rel="self" href="${xml(self)}"/>`]),
+    `  <updated>${new Date(now).toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Request, filter and export Fightcade Events
+ *
+ * @param args - `ExportEvents()` Arguments
+ *
+ * @example
+ * ```js
+ * // Export the North American 'umk3' events as an iCalendar.
+ * const ics = await ExportEvents({format: 'ics', gameid: 'umk3', region: 'NA'});
+ * ```
+ */
+export async function ExportEvents(args: ExportEventsArgs): Promise<string> {
+  const {format, gameid, maxItems, options = {}, client = Fightcade, ...filter} = args;
+  // A single game is filtered by Fightcade, several games are filtered locally.
+  const query = (typeof gameid === 'string') ? {gameid} : {};
+  const events: Fightcade.Event[] = [];
+  for await (const event of client.IterateEvents({...query, pageSize: 50, ...(maxItems !== undefined && {maxItems})})) events.push(event);
+  const filtered = FilterEvents(events, {...filter, ...(gameid !== undefined && {gameid})});
+  if (format === 'ics') return ToICalendar(filtered, options);
+  return (format === 'rss') ? ToRSS(filtered, options) : ToAtom(filtered, options);
+}
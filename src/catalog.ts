@@ -0,0 +1,225 @@
+import { Fightcade } from './fightcade-api.ts';
+import { pool, same } from './internal.ts';
+
+/**
+ * Game Catalog Query
+ *
+ * Every string filter is case-insensitive.
+ *
+ * @param name - Fuzzy match against the Game Name and ROM Name, results are sorted by relevance
+ * @param system - Only include Games of this Fightcade System Name
+ * @param emulator - Only include Games of this Emulator
+ * @param genre - Only include Games tagged with this Genre, or with every Genre of a list
+ * @param publisher - Only include Games whose Publisher contains this
+ * @param year - Only include Games released in this year or year range, both ends inclusive
+ * @param ranked - Only include Games with (`true`) or without (`false`) Ranked Matchmaking
+ * @param training - Only include Games with (`true`) or without (`false`) Training Mode
+ * @param limit - `default: Infinity` Maximum Amount of Games to return
+ */
+export type CatalogQuery = {
+  name?: string,
+  system?: string,
+  emulator?: string,
+  genre?: string | string[],
+  publisher?: string,
+  year?: number | {from?: number, to?: number},
+  ranked?: boolean,
+  training?: boolean,
+  limit?: number,
+};
+
+/**
+ * Node of the `romof` Parent/Clone Tree
+ *
+ * @param game - Fightcade Game
+ * @param clones - Games whose `romof` is this Game
+ */
+export type GameNode = {
+  game: Fightcade.Game,
+  clones: GameNode[],
+};
+
+/**
+ * `createGameCatalog()` Arguments
+ *
+ * @param games - `default: []` Games to start with, e.g. the result of a previous `catalog.games()`
+ * @param concurrency - `default: 5` Maximum Amount of Game lookups in flight
+ * @param parents - `default: true` Also look up the `romof` parent of every looked up Game
+ * @param client - `default: Fightcade` Fightcade Client used to look up Games
+ */
+export type GameCatalogArgs = {
+  games?: Fightcade.Game[],
+  concurrency?: number,
+  parents?: boolean,
+  client?: Pick<Fightcade.Client, 'GetGame'>,
+};
+
+/**
+ * Game Catalog
+ *
+ * @param add - Add or replace Games
+ * @param load - Look up every unknown ROM Name, returns the Game or the Error the lookup failed with per ROM Name
+ * @param seed - Look up every ROM Name found in Replays, Players or Users
+ * @param get - Get a catalogued Game by ROM Name
+ * @param games - Every catalogued Game
+ * @param search - Search the catalogued Games
+ * @param parent - Get the catalogued `romof` parent of a Game
+ * @param clones - Get the catalogued Games whose `romof` is a Game
+ * @param tree - Every catalogued Game as `romof` parent/clone trees, Games without a catalogued parent are roots
+ */
+export type GameCatalog = {
+  add(...games: Fightcade.Game[]): void,
+  load(gameids: Iterable<string>): Promise<Map<string, Fightcade.Game | Fightcade.FightcadeError>>,
+  seed(items: Iterable<Fightcade.Replay | Fightcade.Player | Fightcade.User>): Promise<Map<string, Fightcade.Game | Fightcade.FightcadeError>>,
+  get(gameid: string): Fightcade.Game | undefined,
+  games(): Fightcade.Game[],
+  search(query?: CatalogQuery): Fightcade.Game[],
+  parent(gameid: string): Fightcade.Game | undefined,
+  clones(gameid: string): Fightcade.Game[],
+  tree(): GameNode[],
+};
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Score how well a Game matches a fuzzy name query
+ *
+ * @returns `0` for no match up to `1` for an exact ROM Name or Game Name match
+ */
+export function MatchGameName(game: Fightcade.Game, query: string): number {
+  const q = normalize(query);
+  if (!q) return 0;
+  const name = normalize(game.name);
+  if (q === game.gameid.toLowerCase() || q === name) return 1;
+  const index = name.indexOf(q);
+  // Whole-phrase matches rank above word matches, earlier ones above later ones.
+  if (index >= 0) return 0.9 - 0.1 * index / name.length;
+  const words = name.split(' ');
+  const tokens = q.split(' ');
+  if (tokens.every(token => words.some(word => word.startsWith(token)))) return 0.7;
+  if (game.gameid.toLowerCase().startsWith(q.replaceAll(' ', ''))) return 0.6;
+  // Abbreviations such as 'sf3ts' match as a subsequence, the tighter the better.
+  const compact = q.replaceAll(' ', '');
+  let position = -1;
+  let start = -1;
+  for (const char of compact) {
+    position = name.indexOf(char, position + 1);
+    if (position < 0) return 0;
+    if (start < 0) start = position;
+  }
+  return 0.5 * compact.length / (position - start + 1);
+}
+
+const inYear = (game: Fightcade.Game, year: NonNullable<CatalogQuery['year']>) => {
+  const released = Number.parseInt(game.year ?? '', 10);
+  if (Number.isNaN(released)) return false;
+  if (typeof year === 'number') return released === year;
+  return released >= (year.from ?? -Infinity) && released <= (year.to ?? Infinity);
+};
+
+function matches(game: Fightcade.Game, query: CatalogQuery): boolean {
+  const {system, emulator, genre, publisher, year, ranked, training} = query;
+  if (system !== undefined && !same(game.system, system)) return false;
+  if (emulator !== undefined && !same(game.emulator, emulator)) return false;
+  if (genre !== undefined && ![genre].flat().every(wanted => game.genres?.some(tag => same(tag, wanted)))) return false;
+  if (publisher !== undefined && !game.publisher?.toLowerCase().includes(publisher.toLowerCase())) return false;
+  if (year !== undefined && !inYear(game, year)) return false;
+  if (ranked !== undefined && game.ranked !== ranked) return false;
+  if (training !== undefined && (game.training ?? false) !== training) return false;
+  return true;
+}
+
+/**
+ * Create a Game Catalog
+ *
+ * Looked up Games are kept for the lifetime of the catalog, so every ROM Name is only requested once.
+ *
+ * @param args - `createGameCatalog()` Arguments
+ *
+ * @example
+ * ```js
+ * // Offer the ranked fighting games seen in recent replays, best match for 'street fighter' first.
+ * const catalog = createGameCatalog();
+ * await catalog.seed(await Fightcade.GetReplays({limit: 100}));
+ * catalog.search({name: 'street fighter', genre: 'fighter', ranked: true}).forEach(game => console.log(game.name));
+ * ```
+ */
+export function createGameCatalog(args: GameCatalogArgs = {}): GameCatalog {
+  const {concurrency = 5, parents = true, client = Fightcade} = args;
+  const games = new Map<string, Fightcade.Game>();
+  const inflight = new Map<string, Promise<Fightcade.Game | Fightcade.FightcadeError>>();
+
+  const add = (...added: Fightcade.Game[]) => added.forEach(game => games.set(game.gameid, game));
+  add(...args.games ?? []);
+
+  // Concurrent loads of the same ROM Name share one lookup.
+  const lookup = (gameid: string) => {
+    const known = games.get(gameid);
+    if (known) return Promise.resolve(known);
+    const pending = inflight.get(gameid);
+    if (pending) return pending;
+    const promise = client.GetGame(gameid).then(game => {
+      add(game);
+      return game;
+    }, (e: unknown) => {
+      if (!(e instanceof Fightcade.FightcadeError)) throw e;
+      return e;
+    }).finally(() => inflight.delete(gameid));
+    inflight.set(gameid, promise);
+    return promise;
+  };
+
+  const load = async (gameids: Iterable<string>) => {
+    const queue = [...new Set(gameids)];
+    const results = new Map<string, Fightcade.Game | Fightcade.FightcadeError>();
+    await pool(queue, concurrency, async (gameid) => {
+      const result = await lookup(gameid);
+      results.set(gameid, result);
+      if (parents && !(result instanceof Error) && result.romof !== undefined && !queue.includes(result.romof)) queue.push(result.romof);
+    });
+    return results;
+  };
+
+  const clones = (gameid: string) => [...games.values()].filter(game => game.romof === gameid && game.gameid !== gameid);
+
+  return {
+    add,
+    load,
+    seed(items) {
+      const gameids = new Set<string>();
+      for (const item of items) {
+        if ('quarkid' in item) gameids.add(item.gameid);
+        else Object.keys(item.gameinfo ?? {}).forEach(gameid => gameids.add(gameid));
+      }
+      return load(gameids);
+    },
+    get: gameid => games.get(gameid),
+    games: () => [...games.values()],
+    search(query = {}) {
+      const {name, limit = Infinity} = query;
+      const found = [...games.values()].filter(game => matches(game, query));
+      if (name === undefined) return found.sort((a, b) => a.name.localeCompare(b.name)).slice(0, limit);
+      return found
+        .map(game => ({game, score: MatchGameName(game, name)}))
+        .filter(({score}) => score > 0)
+        .sort((a, b) => b.score - a.score || a.game.name.localeCompare(b.game.name))
+        .slice(0, limit)
+        .map(({game}) => game);
+    },
+    parent(gameid) {
+      const romof = games.get(gameid)?.romof;
+      return (romof === undefined || romof === gameid) ? undefined : games.get(romof);
+    },
+    clones,
+    tree() {
+      // `visited` guards against `romof` cycles in malformed data.
+      const visited = new Set<string>();
+      const node = (game: Fightcade.Game): GameNode => {
+        visited.add(game.gameid);
+        return {game, clones: clones(game.gameid).filter(clone => !visited.has(clone.gameid)).map(node)};
+      };
+      const roots = [...games.values()].filter(game => game.romof === undefined || game.romof === game.gameid || !games.has(game.romof));
+      return roots.map(node);
+    },
+  };
+}
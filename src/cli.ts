@@ -0,0 +1,303 @@
+import { Fightcade } from './fightcade-api.ts';
+
+/**
+ * Command-line tool for the Fightcade API
+ *
+ * Exit Codes:
+ * - `0` Success
+ * - `1` Unexpected Error
+ * - `2` Invalid Usage
+ * - `3` User, Replay or Game not found
+ * - `4` Fightcade unavailable, i.e. network, HTTP, API or schema error
+ */
+
+/**
+ * Command-Line Tool Options
+ *
+ * @param client - `default: Fightcade` Fightcade Client used for every command
+ * @param stdout - `default: process.stdout` Called with the output
+ * @param stderr - `default: process.stderr` Called with errors and usage hints
+ */
+export type CliOptions = {
+  client?: Pick<Fightcade.Client, 'GetUser' | 'GetReplay' | 'GetReplays' | 'GetUserReplays' | 'GetRankings' | 'GetGame' | 'GetEvents' | 'GetReplayURL'>,
+  stdout?: (text: string) => void,
+  stderr?: (text: string) => void,
+};
+
+const USAGE = `Usage: fightcade <command> [arguments] [options]
+
+Commands:
+  user <username>             Get a user and their ranks per game
+  replay <quarkid>            Get a replay
+  replays                     Get the newest replays
+  user-replays <username>     Get the newest replays of a user
+  rankings <gameid>           Get the top ranked players of a game
+  game <gameid>               Get game info
+  events                      Get active events
+  replay-url <quarkid>        Get the URL of a replay
+
+Options:
+  --gameid <gameid>           Filter replays and events by game
+  --limit <n>                 Amount of results to request
+  --offset <n>                Index of the first result to request
+  --best                      Sort replays by player Elo
+  --since <date>              Only replays after this date (ISO 8601 or millisecond timestamp)
+  --ranked                    Only ranked replays
+  --by-elo, --no-by-elo       Sort rankings by Elo (default: on)
+  --recent, --no-recent       Only include recently active players in rankings (default: on)
+  --format <table|json|csv>   Output format (default: table)
+  -h, --help                  Show this help
+`;
+
+class UsageError extends Error {}
+
+type Format = 'table' | 'json' | 'csv';
+
+type Options = {
+  gameid?: string,
+  limit?: number,
+  offset?: number,
+  best?: boolean,
+  since?: number,
+  ranked?: boolean,
+  byElo?: boolean,
+  recent?: boolean,
+  format: Format,
+  help: boolean,
+};
+
+type Output = {
+  // Rendered as-is by the JSON format.
+  data: unknown,
+  // Rendered by the table and CSV formats.
+  rows: Record<string, string>[],
+  // Printed above the table only.
+  title?: string,
+};
+
+const BOOLEAN_FLAGS = {'best': 'best', 'ranked': 'ranked', 'by-elo': 'byElo', 'recent': 'recent'} as const;
+const NUMBER_FLAGS = {'limit': 'limit', 'offset': 'offset'} as const;
+
+const parseDate = (value: string) => {
+  const date = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(date)) throw new UsageError(`Invalid date '${value}'`);
+  return date;
+};
+
+function parseArgs(argv: string[]): {positionals: string[], options: Options} {
+  const positionals: string[] = [];
+  const options: Options = {format: 'table', help: false};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+    const [flag = '', inline] = arg.slice(2).split(/=(.*)/s);
+    const value = () => {
+      const next = inline ?? argv[++i];
+      if (next === undefined) throw new UsageError(`Option '--${flag}' requires a value`);
+      return next;
+    };
+    if (flag in BOOLEAN_FLAGS) {
+      if (inline !== undefined && inline !== 'true' && inline !== 'false') throw new UsageError(`Option '--${flag}' must be 'true' or 'false'`);
+      options[BOOLEAN_FLAGS[flag as keyof typeof BOOLEAN_FLAGS]] = inline !== 'false';
+    } else if (flag.startsWith('no-') && flag.slice(3) in BOOLEAN_FLAGS) {
+      options[BOOLEAN_FLAGS[flag.slice(3) as keyof typeof BOOLEAN_FLAGS]] = false;
+    } else if (flag in NUMBER_FLAGS) {
+      const number = Number(value());
+      if (!Number.isInteger(number) || number < 0) throw new UsageError(`Option '--${flag}' must be a non-negative integer`);
+      options[NUMBER_FLAGS[flag as keyof typeof NUMBER_FLAGS]] = number;
+    } else if (flag === 'since') {
+      options.since = parseDate(value());
+    } else if (flag === 'gameid') {
+      options.gameid = value();
+    } else if (flag === 'format') {
+      const format = value();
+      if (format !== 'table' && format !== 'json' && format !== 'csv') throw new UsageError(`Unknown format '${format}'`);
+      options.format = format;
+    } else {
+      throw new UsageError(`Unknown option '--${flag}'`);
+    }
+  }
+  return {positionals, options};
+}
+
+// Copy only the options a command accepts, since `exactOptionalPropertyTypes` forbids explicit `undefined`s.
+function pick<K extends keyof Options>(options: Options, keys: K[]): {[P in K]?: Exclude<Options[P], undefined>} {
+  const picked: {[P in K]?: Exclude<Options[P], undefined>} = {};
+  for (const key of keys) {
+    if (options[key] !== undefined) picked[key] = options[key] as Exclude<Options[K], undefined>;
+  }
+  return picked;
+}
+
+const date = (timestamp?: number) => (timestamp === undefined) ? '' : new Date(timestamp).toISOString();
+
+const rank = (value?: Fightcade.RankEnum | null) => Fightcade.Rank[value ?? 0];
+
+const country = (player: Fightcade.Player) => (typeof player.country === 'string') ? player.country : player.country.iso_code.toUpperCase();
+
+const duration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+const replayRow = (replay: Fightcade.Replay) => ({
+  quarkid: replay.quarkid,
+  date: date(replay.date),
+  gameid: replay.gameid,
+  players: replay.players.map(player => player.name).join(' vs '),
+  score: replay.players.every(player => typeof player.score === 'number') ? replay.players.map(player => player.score).join('-') : '',
+  ranked: (replay.ranked === 'cancelled') ? 'cancelled' : (replay.ranked === null) ? '' : `FT${replay.ranked}`,
+  duration: duration(replay.duration),
+});
+
+function required(positionals: string[], name: string): string {
+  const value = positionals[1];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+async function run(client: NonNullable<CliOptions['client']>, positionals: string[], options: Options): Promise<Output> {
+  switch (positionals[0]) {
+    case 'user': {
+      const user = await client.GetUser(required(positionals, 'username'));
+      return {
+        data: user,
+        title: `${user.name} (created ${date(user.date)}${user.last_online ? `, last online ${date(user.last_online)}` : ''})`,
+        rows: Object.entries(user.gameinfo ?? {}).map(([gameid, info]) => ({
+          gameid,
+          rank: rank(info.rank),
+          matches: String(info.num_matches ?? ''),
+          hours: (info.time_played / 3600000).toFixed(1),
+          last_match: date(info.last_match),
+        })),
+      };
+    }
+    case 'replay': {
+      const replay = await client.GetReplay(required(positionals, 'quarkid'));
+      return {data: replay, rows: [replayRow(replay)]};
+    }
+    case 'replays': {
+      const replays = await client.GetReplays(pick(options, ['gameid', 'limit', 'offset', 'best', 'since', 'ranked']));
+      return {data: replays, rows: replays.map(replayRow)};
+    }
+    case 'user-replays': {
+      const replays = await client.GetUserReplays(required(positionals, 'username'), pick(options, ['limit', 'offset', 'best', 'since', 'ranked']));
+      return {data: replays, rows: replays.map(replayRow)};
+    }
+    case 'rankings': {
+      const gameid = required(positionals, 'gameid');
+      const players = await client.GetRankings(gameid, pick(options, ['limit', 'offset', 'byElo', 'recent']));
+      return {
+        data: players,
+        rows: players.map((player, i) => ({
+          '#': String((options.offset ?? 0) + i + 1),
+          name: player.name,
+          country: country(player),
+          rank: rank(player.gameinfo?.[gameid]?.rank ?? player.rank),
+          matches: String(player.gameinfo?.[gameid]?.num_matches ?? ''),
+        })),
+      };
+    }
+    case 'game': {
+      const game = await client.GetGame(required(positionals, 'gameid'));
+      return {
+        data: game,
+        rows: [{
+          gameid: game.gameid,
+          name: game.name,
+          system: game.system,
+          emulator: game.emulator,
+          year: game.year ?? '',
+          publisher: game.publisher ?? '',
+          ranked: String(game.ranked),
+          training: String(game.training ?? false),
+          genres: (game.genres ?? []).join(', '),
+        }],
+      };
+    }
+    case 'events': {
+      const events = await client.GetEvents(pick(options, ['gameid', 'limit', 'offset']));
+      return {
+        data: events,
+        rows: events.map(event => ({
+          date: date(event.date),
+          name: event.name,
+          gameid: event.gameid,
+          region: event.region,
+          author: event.author,
+          link: event.link,
+        })),
+      };
+    }
+    case 'replay-url': {
+      const url = client.GetReplayURL(await client.GetReplay(required(positionals, 'quarkid')));
+      return {data: url, rows: [{url}]};
+    }
+    case undefined:
+      throw new UsageError('Missing <command>');
+    default:
+      throw new UsageError(`Unknown command '${positionals[0]}'`);
+  }
+}
+
+function table(rows: Record<string, string>[]): string {
+  const columns = Object.keys(rows[0] ?? {});
+  const widths = columns.map(column => Math.max(column.length, ...rows.map(row => row[column]?.length ?? 0)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i]!)).join('  ').trimEnd();
+  return [line(columns), line(widths.map(width => '-'.repeat(width))), ...rows.map(row => line(columns.map(column => row[column] ?? '')))].join('\n');
+}
+
+function csv(rows: Record<string, string>[]): string {
+  const columns = Object.keys(rows[0] ?? {});
+  const cell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+  return [columns, ...rows.map(row => columns.map(column => row[column] ?? ''))].map(cells => cells.map(cell).join(',')).join('\n');
+}
+
+function render(output: Output, format: Format): string {
+  if (format === 'json') return JSON.stringify(output.data, null, 2);
+  if (format === 'csv') return csv(output.rows);
+  if (!output.rows.length) return output.title ?? 'No results.';
+  // A bare string such as a replay URL reads better without a table around it.
+  if (typeof output.data === 'string') return output.data;
+  return [output.title, table(output.rows)].filter(part => part !== undefined).join('\n\n');
+}
+
+/**
+ * Run the Fightcade command-line tool
+ *
+ * @param argv - Command-Line Arguments without the executable and script
+ * @param cli - Command-Line Tool Options
+ * @returns Exit Code
+ *
+ * @example
+ * ```js
+ * // Print the newest 'umk3' replays as CSV.
+ * process.exitCode = await main(['replays', '--gameid', 'umk3', '--format', 'csv']);
+ * ```
+ */
+export async function main(argv: string[], cli: CliOptions = {}): Promise<number> {
+  const {client = Fightcade, stdout = text => process.stdout.write(text), stderr = text => process.stderr.write(text)} = cli;
+  try {
+    const {positionals, options} = parseArgs(argv);
+    if (options.help) {
+      stdout(USAGE);
+      return 0;
+    }
+    const output = await run(client, positionals, options);
+    stdout(`${render(output, options.format)}\n`);
+    return 0;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      stderr(`fightcade: ${e.message}\n\n${USAGE}`);
+      return 2;
+    }
+    stderr(`fightcade: ${(e instanceof Error) ? e.message : String(e)}\n`);
+    if (e instanceof Fightcade.FightcadeNotFoundError) return 3;
+    if (e instanceof Fightcade.FightcadeError) return 4;
+    return 1;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Event Listener
+ */
+export type Listener<T> = (event: T) => void;
+
+/**
+ * Typed Event Emitter shared by the long running subsystems
+ *
+ * Unlike Node's `EventEmitter` it has no runtime dependency, so it also works in browsers and edge runtimes.
+ */
+export type Emitter<Events extends object> = {
+  /**
+   * Subscribe to an Event
+   *
+   * @returns Function that removes the listener again
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void,
+  /**
+   * Unsubscribe from an Event
+   */
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void,
+};
+
+export function createEmitter<Events extends object>() {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+  const emitter: Emitter<Events> = {
+    on(type, listener) {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+      return () => emitter.off(type, listener);
+    },
+    off(type, listener) {
+      listeners.get(type)?.delete(listener);
+    },
+  };
+  const emit = <K extends keyof Events>(type: K, event: Events[K]) => {
+    for (const listener of listeners.get(type) ?? []) (listener as Listener<Events[K]>)(event);
+  };
+  return {emitter, emit};
+}
@@ -1,13 +1,14 @@
 import { z } from 'zod';
+import { abortable, assertConcurrency, createDeadline, pool } from './internal.ts';
 
 export namespace Fightcade {
-  const ResponseSchema = z.object({res: z.literal('OK')});
+  export const ResponseSchema = z.object({res: z.literal('OK')});
 
-  const RankEnumSchema = z.nativeEnum({Unranked: 0, E: 1, D: 2, C: 3, B: 4, A: 5, S: 6} as const);
+  export const RankEnumSchema = z.nativeEnum({Unranked: 0, E: 1, D: 2, C: 3, B: 4, A: 5, S: 6} as const);
 
   export type RankEnum = z.infer<typeof RankEnumSchema>;
 
-  const GameInfoSchema = z.record(z.object({
+  export const GameInfoSchema = z.record(z.object({
     rank: z.optional(z.nullable(RankEnumSchema)),
     num_matches: z.optional(z.number()),
     last_match: z.optional(z.number()),
@@ -41,7 +42,7 @@ export namespace Fightcade {
     }
   };
 
-  const UserSchema = z.object({
+  export const UserSchema = z.object({
     name: z.string(),
     gravatar: z.optional(z.string()),
     ranked: z.boolean(),
@@ -70,9 +71,9 @@ export namespace Fightcade {
    */
   export type User = z.infer<typeof UserSchema>;
 
-  const UserResponseSchema = ResponseSchema.merge(z.object({user: UserSchema}));
+  export const UserResponseSchema = ResponseSchema.merge(z.object({user: UserSchema}));
 
-  const CountrySchema = z.object({
+  export const CountrySchema = z.object({
     iso_code: z.string(),
     full_name: z.string(),
   });
@@ -91,7 +92,7 @@ export namespace Fightcade {
    */
   export type Country = z.infer<typeof CountrySchema>;
 
-  const PlayerSchema = z.object({
+  export const PlayerSchema = z.object({
     name: z.string(),
     country: CountrySchema.or(z.string()),
     rank: z.optional(z.nullable(RankEnumSchema)),
@@ -116,14 +117,14 @@ export namespace Fightcade {
    */
   export type Player = z.infer<typeof PlayerSchema>;
 
-  const PlayerResultsSchema = z.object({
+  export const PlayerResultsSchema = z.object({
     results: PlayerSchema.array(),
     count: z.number(),
   });
 
-  const PlayerResultsResponseSchema = ResponseSchema.merge(z.object({results: PlayerResultsSchema}));
+  export const PlayerResultsResponseSchema = ResponseSchema.merge(z.object({results: PlayerResultsSchema}));
 
-  const ReplaySchema = z.object({
+  export const ReplaySchema = z.object({
     quarkid: z.string(),
     channelname: z.string(),
     date: z.number(),
@@ -164,14 +165,14 @@ export namespace Fightcade {
    */
   export type Replay = z.infer<typeof ReplaySchema>;
 
-  const ReplayResultsSchema = z.object({
+  export const ReplayResultsSchema = z.object({
     results: ReplaySchema.array(),
     count: z.number(),
   });
 
-  const ReplayResultsResponseSchema = ResponseSchema.merge(z.object({results: ReplayResultsSchema}));
+  export const ReplayResultsResponseSchema = ResponseSchema.merge(z.object({results: ReplayResultsSchema}));
 
-  const VideoURLResponse = z.record(z.string());
+  export const VideoURLsSchema = z.record(z.string());
 
   /**
    * FightcadeVids URLs
@@ -191,7 +192,7 @@ export namespace Fightcade {
     [quarkid: string]: string;
   };
 
-  const GameSchema = z.object({
+  export const GameSchema = z.object({
     gameid: z.string(),
     romof: z.optional(z.string()),
     name: z.string(),
@@ -229,9 +230,9 @@ export namespace Fightcade {
    */
   export type Game = z.infer<typeof GameSchema>;
 
-  const GameResponseSchema = ResponseSchema.merge(z.object({game: GameSchema}));
+  export const GameResponseSchema = ResponseSchema.merge(z.object({game: GameSchema}));
 
-  const EventSchema = z.object({
+  export const EventSchema = z.object({
     name: z.string(),
     author: z.string(),
     date: z.number(),
@@ -261,12 +262,12 @@ export namespace Fightcade {
    */
   export type Event = z.infer<typeof EventSchema>;
 
-  const EventResultsSchema = z.object({
+  export const EventResultsSchema = z.object({
     results: EventSchema.array(),
     count: z.number(),
   });
 
-  const EventResultsResponseSchema = ResponseSchema.merge(z.object({results: EventResultsSchema}));
+  export const EventResultsResponseSchema = ResponseSchema.merge(z.object({results: EventResultsSchema}));
 
   const URL = {
     API: 'https://www.fightcade.com/api/',
@@ -290,10 +291,1128 @@ export namespace Fightcade {
    */
   export const Rank = ['Unranked', 'E', 'D', 'C', 'B', 'A', 'S'] as const;
 
+  /**
+   * Base Class of every Error thrown by this library
+   *
+   * @example
+   * ```js
+   * // Tell a missing user apart from Fightcade being unavailable.
+   * try {
+   *   await Fightcade.GetUser('biggs');
+   * } catch (e) {
+   *   if (e instanceof Fightcade.FightcadeNotFoundError) console.log('User not found.');
+   *   else if (e instanceof Fightcade.FightcadeError) console.log(`Fightcade is unavailable: ${e.message}`);
+   * }
+   * ```
+   */
+  export class FightcadeError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+      super(message, options);
+      this.name = 'FightcadeError';
+    }
+  }
+
+  /**
+   * Thrown when a request never received a response, e.g. DNS failure or connection reset
+   *
+   * @param url - Requested URL
+   * @param cause - Error thrown by `fetch`
+   */
+  export class FightcadeNetworkError extends FightcadeError {
+    readonly url: string;
+
+    constructor(url: string, cause: unknown) {
+      super(`Request to '${url}' failed: ${(cause instanceof Error) ? cause.message : String(cause)}`, {cause});
+      this.name = 'FightcadeNetworkError';
+      this.url = url;
+    }
+  }
+
+  /**
+   * Thrown when Fightcade responds with a non-2xx HTTP Status
+   *
+   * @param status - HTTP Status Code
+   * @param statusText - HTTP Status Text
+   * @param body - Response Body, parsed as JSON when possible
+   * @param headers - Response Headers
+   */
+  export class FightcadeHttpError extends FightcadeError {
+    readonly status: number;
+    readonly statusText: string;
+    readonly body: unknown;
+    readonly headers: Response['headers'] | undefined;
+
+    constructor(status: number, statusText: string, body: unknown, headers?: Response['headers']) {
+      super(`Fightcade responded with HTTP ${status}${statusText ? ` ${statusText}` : ''}`);
+      this.name = 'FightcadeHttpError';
+      this.status = status;
+      this.statusText = statusText;
+      this.body = body;
+      this.headers = headers;
+    }
+  }
+
+  /**
+   * Thrown when the Fightcade API responds with a `res` other than `'OK'`
+   *
+   * @param res - Fightcade API `res` Value
+   * @param body - Response Body
+   */
+  export class FightcadeApiError extends FightcadeError {
+    readonly res: unknown;
+    readonly body: unknown;
+
+    constructor(res: unknown, body: unknown) {
+      super(`Fightcade API responded with '${String(res)}'`);
+      this.name = 'FightcadeApiError';
+      this.res = res;
+      this.body = body;
+    }
+  }
+
+  /**
+   * Thrown when the requested User, Replay, Game or Video does not exist
+   *
+   * @param resource - Kind of the missing resource
+   * @param id - Username, Challenge ID or ROM Name that was requested
+   */
+  export class FightcadeNotFoundError extends FightcadeError {
+    readonly resource: 'user' | 'replay' | 'game' | 'video';
+    readonly id: string;
+
+    constructor(resource: 'user' | 'replay' | 'game' | 'video', id: string) {
+      super(`Fightcade ${resource} '${id}' not found`);
+      this.name = 'FightcadeNotFoundError';
+      this.resource = resource;
+      this.id = id;
+    }
+  }
+
+  /**
+   * Thrown when a response does not match the expected schema, usually because the Fightcade API changed
+   *
+   * @param issues - Zod Validation Issues
+   * @param body - Response Body
+   */
+  export class FightcadeSchemaError extends FightcadeError {
+    readonly issues: z.ZodIssue[];
+    readonly body: unknown;
+
+    constructor(issues: z.ZodIssue[], body: unknown) {
+      super(`Unexpected Fightcade response: ${issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+      this.name = 'FightcadeSchemaError';
+      this.issues = issues;
+      this.body = body;
+    }
+  }
+
+  /**
+   * Thrown when a request did not finish within its `timeoutMs`, including retries and rate limit waits
+   *
+   * @param url - Requested URL
+   * @param timeoutMs - Timeout in Milliseconds that elapsed
+   */
+  export class FightcadeTimeoutError extends FightcadeError {
+    readonly url: string;
+    readonly timeoutMs: number;
+
+    constructor(url: string, timeoutMs: number) {
+      super(`Request to '${url}' timed out after ${timeoutMs}ms`);
+      this.name = 'FightcadeTimeoutError';
+      this.url = url;
+      this.timeoutMs = timeoutMs;
+    }
+  }
+
+  /**
+   * Thrown when a request was cancelled through its `signal`
+   *
+   * @param url - Requested URL
+   * @param reason - Abort Reason of the signal
+   */
+  export class FightcadeAbortError extends FightcadeError {
+    readonly url: string;
+
+    constructor(url: string, reason: unknown) {
+      super(`Request to '${url}' was aborted`, {cause: reason});
+      this.name = 'FightcadeAbortError';
+      this.url = url;
+    }
+  }
+
+  /**
+   * Fetch Implementation used by a Fightcade Client
+   *
+   * Any function compatible with the global `fetch` can be used, e.g. an instrumented wrapper or a mock.
+   */
+  export type Fetch = (input: string, init: RequestInit) => Promise<Response>;
+
+  /**
+   * HTTP Request a Transport delivers
+   *
+   * @param url - Endpoint the request is addressed to, e.g. the Fightcade API Base URL
+   * @param body - JSON Request Body, a Fightcade API `RequestBody` or a FightcadeVids lookup
+   * @param headers - HTTP Headers of the client
+   * @param signal - Abort Signal of the request
+   */
+  export type TransportRequest = {
+    url: string,
+    body: object,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  };
+
+  /**
+   * Transport delivering the requests of a Fightcade Client with its Fetch Implementation
+   *
+   * The default transport posts the JSON body to the request URL. Retries, rate limits, caching and parsing happen around the transport.
+   */
+  export type Transport = (request: TransportRequest, fetch: Fetch) => Promise<Response>;
+
+  /**
+   * Proxy Transport Options
+   *
+   * @param url - Proxy Endpoint, e.g. one served by `createProxyHandler()` of `fightcade-api/proxy`
+   * @param method - `default: 'GET'` HTTP Method, `GET` sends the body as the `body` query parameter so responses can be cached by browsers and CDNs
+   * @param headers - Extra HTTP Headers sent to the proxy instead of the client's headers
+   */
+  export type ProxyTransportOptions = {
+    url: string,
+    method?: 'GET' | 'POST',
+    headers?: Record<string, string>,
+  };
+
+  const directTransport: Transport = ({url, body, headers, signal}, fetch) => fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    ...(signal !== undefined && {signal}),
+  });
+
+  /**
+   * Create a Transport that sends Fightcade API requests through a proxy endpoint, e.g. to use the client in browsers
+   *
+   * Browsers block direct requests to the Fightcade API through CORS. The proxy receives the unchanged Fightcade API request body.
+   * `GET` requests without extra headers need no CORS preflight. FightcadeVids lookups are not proxied.
+   *
+   * @param options - Proxy Transport Options
+   *
+   * @example
+   * ```js
+   * // Use the Fightcade API from a web dashboard through its own proxy.
+   * const client = Fightcade.createClient({transport: Fightcade.createProxyTransport({url: '/api/fightcade'})});
+   * const user = await client.GetUser('biggs');
+   * ```
+   */
+  export function createProxyTransport(options: ProxyTransportOptions): Fightcade.Transport {
+    const {url, method = 'GET', headers = {}} = options;
+    return (request, fetch) => {
+      if (!('req' in request.body)) return directTransport(request, fetch);
+      const signal = (request.signal !== undefined) ? {signal: request.signal} : {};
+      if (method === 'POST') return directTransport({...request, url, headers: {'Content-Type': 'application/json', ...headers}}, fetch);
+      // Sorted keys give identical requests identical URLs, so caches can share them.
+      const query = encodeURIComponent(JSON.stringify(request.body, Object.keys(request.body).sort()));
+      return fetch(`${url}${url.includes('?') ? '&' : '?'}body=${query}`, {method: 'GET', headers, ...signal});
+    };
+  }
+
+  /**
+   * Fightcade Client Base URLs
+   *
+   * @param api - Fightcade API Endpoint
+   * @param replay - Fightcade Replay Host, used to build Replay URLs
+   * @param vids - FightcadeVids API Endpoint
+   */
+  export type BaseURLs = {
+    api: string,
+    replay: string,
+    vids: string,
+  };
+
+  /**
+   * Fightcade Client Retry Options
+   *
+   * Fightcade API requests are retried on network errors, HTTP 429 and HTTP 5xx responses
+   * with jittered exponential backoff. A `Retry-After` response header takes precedence over the backoff, capped at `maxDelay`.
+   *
+   * @param retries - `default: 3` Maximum Amount of Retries per request
+   * @param minDelay - `default: 250` Backoff Base Delay in Milliseconds
+   * @param maxDelay - `default: 10000` Maximum Delay between attempts in Milliseconds
+   */
+  export type RetryOptions = {
+    retries?: number,
+    minDelay?: number,
+    maxDelay?: number,
+  };
+
+  /**
+   * Fightcade Client Rate Limit Options
+   *
+   * Limits are shared across every request sent by the same client.
+   *
+   * @param concurrency - `default: Infinity` Maximum Amount of requests in flight
+   * @param requestsPerSecond - `default: Infinity` Maximum Amount of requests started per second
+   */
+  export type RateLimitOptions = {
+    concurrency?: number,
+    requestsPerSecond?: number,
+  };
+
+  /**
+   * Fightcade API Request Type, sent as the `req` Property of every Fightcade API request
+   */
+  export type RequestType = 'getuser' | 'searchquarks' | 'searchrankings' | 'gameinfo' | 'searchevents';
+
+  /**
+   * Fightcade API Request Body, the `req` Type plus its arguments
+   */
+  export type RequestBody = {req: RequestType, [arg: string]: unknown};
+
+  /**
+   * Fightcade Response Cache Entry
+   *
+   * @param value - Parsed Fightcade API Response
+   * @param expires - Millisecond Epoch Timestamp Date after which the entry is stale
+   * @param staleUntil - Millisecond Epoch Timestamp Date after which the entry must not be served anymore
+   */
+  export type CacheEntry = {
+    value: unknown,
+    expires: number,
+    staleUntil: number,
+  };
+
+  /**
+   * Fightcade Response Cache Store
+   *
+   * Entries only contain JSON values, so any key-value store such as Redis or a file can back a store.
+   *
+   * @example
+   * ```js
+   * // Back the response cache with Redis.
+   * const store = {
+   *   get: async key => JSON.parse(await redis.get(key) ?? 'null') ?? undefined,
+   *   set: async (key, entry) => { await redis.set(key, JSON.stringify(entry), {PXAT: entry.staleUntil}); },
+   *   delete: async key => { await redis.del(key); },
+   * };
+   * const client = Fightcade.createClient({cache: {store}});
+   * ```
+   */
+  export type CacheStore = {
+    get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>,
+    set(key: string, entry: CacheEntry): void | Promise<void>,
+    delete(key: string): void | Promise<void>,
+  };
+
+  /**
+   * Fightcade Client Cache Options
+   *
+   * Responses are cached by request body, i.e. the `req` type and its arguments.
+   * Concurrent identical requests share a single network round trip.
+   *
+   * @param store - `default: createMemoryCache()` Cache Store
+   * @param ttl - Time To Live in Milliseconds per Request Type, `0` disables caching for a Request Type
+   * @param staleWhileRevalidate - `default: 0` Milliseconds an expired entry is still served while it is refreshed in the background
+   */
+  export type CacheOptions = {
+    store?: CacheStore,
+    ttl?: Partial<Record<RequestType, number>>,
+    staleWhileRevalidate?: number,
+  };
+
+  // Game metadata practically never changes, rankings and events move slowly, users and replays change often.
+  const DefaultTTL: Record<RequestType, number> = {
+    getuser: 60 * 1000,
+    searchquarks: 30 * 1000,
+    searchrankings: 5 * 60 * 1000,
+    gameinfo: 24 * 60 * 60 * 1000,
+    searchevents: 5 * 60 * 1000,
+  };
+
+  /**
+   * Create an in-memory Least Recently Used Cache Store
+   *
+   * @param maxEntries - `default: 1000` Maximum Amount of cached responses
+   *
+   * @example
+   * ```js
+   * // Cache up to 100 responses in memory.
+   * const client = Fightcade.createClient({cache: {store: Fightcade.createMemoryCache(100)}});
+   * ```
+   */
+  export function createMemoryCache(maxEntries = 1000): Fightcade.CacheStore {
+    // Maps iterate in insertion order, so re-inserting on access keeps the least recently used entry first.
+    const entries = new Map<string, CacheEntry>();
+    return {
+      get(key) {
+        const entry = entries.get(key);
+        if (entry) {
+          entries.delete(key);
+          entries.set(key, entry);
+        }
+        return entry;
+      },
+      set(key, entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+        for (const oldest of entries.keys()) {
+          if (entries.size <= maxEntries) break;
+          entries.delete(oldest);
+        }
+      },
+      delete(key) {
+        entries.delete(key);
+      },
+    };
+  }
+
+  /**
+   * Response Parsing Mode
+   *
+   * - `strict`: Validate every response, drop unknown fields and throw `FightcadeSchemaError` on mismatches
+   * - `lenient`: Keep unknown fields, replace invalid values of optional or nullable fields, e.g. an unknown rank number,
+   *   and report every drift through `onSchemaDrift` instead of throwing
+   * - `passthrough`: Return responses without any validation
+   */
+  export type ParseMode = 'strict' | 'lenient' | 'passthrough';
+
+  /**
+   * Schema Drift reported by the `lenient` Parsing Mode
+   *
+   * @param url - Requested URL
+   * @param issues - Zod Validation Issues of the response
+   * @param unknownFields - Paths of fields missing from the schema, e.g. `'user.new_field'`
+   * @param recovered - Whether the invalid values could be replaced. If not, the response is returned unvalidated
+   * @param body - Response Body
+   */
+  export type SchemaDrift = {
+    url: string,
+    issues: z.ZodIssue[],
+    unknownFields: string[],
+    recovered: boolean,
+    body: unknown,
+  };
+
+  /**
+   * Fightcade Client Options
+   *
+   * @param fetch - `default: globalThis.fetch` Fetch Implementation used for every request
+   * @param transport - `default: direct` Transport delivering every request, e.g. `createProxyTransport()`
+   * @param baseUrls - `default: Fightcade's public URLs` Base URLs to send requests to
+   * @param headers - Extra HTTP Headers sent with every request, e.g. `User-Agent`
+   * @param retry - `default: {}` Retry Options, `false` disables retries
+   * @param rateLimit - `default: {}` Rate Limit Options
+   * @param cache - `default: false` Response Cache Options, caching is disabled unless set
+   * @param parsing - `default: 'strict'` Response Parsing Mode
+   * @param onSchemaDrift - Called by the `lenient` Parsing Mode whenever a response does not match its schema
+   * @param timeoutMs - `default: Infinity` Default Timeout in Milliseconds of every request, see `RequestOptions`
+   * @param middleware - `default: []` Middleware wrapped around every Fightcade API request, first one outermost
+   *
+   * @example
+   * ```js
+   * // Create a client that identifies itself and talks to a local mock server.
+   * const client = Fightcade.createClient({
+   *   baseUrls: {api: 'http://localhost:8080/api/'},
+   *   headers: {'User-Agent': 'my-bot/1.0'},
+   * });
+   * ```
+   */
+  export type ClientOptions = {
+    fetch?: Fetch,
+    transport?: Transport,
+    baseUrls?: Partial<BaseURLs>,
+    headers?: Record<string, string>,
+    retry?: RetryOptions | false,
+    rateLimit?: RateLimitOptions,
+    cache?: CacheOptions | false,
+    parsing?: ParseMode,
+    onSchemaDrift?: (drift: SchemaDrift) => void,
+    timeoutMs?: number,
+    middleware?: Middleware[],
+  };
+
+  /**
+   * Single HTTP Attempt of a Fightcade API request
+   *
+   * @param method - HTTP Method the transport sent, e.g. `GET` through `createProxyTransport()`, unset if nothing was sent
+   * @param url - Full URL the transport sent the request to, including its query
+   * @param status - HTTP Status Code, `null` if no response was received
+   * @param duration - Milliseconds the attempt took, excluding rate limit waits
+   * @param error - Error the attempt failed with, if any
+   */
+  export type RequestAttempt = {
+    method?: string,
+    url?: string,
+    status: number | null,
+    duration: number,
+    error?: unknown,
+  };
+
+  /**
+   * How a response was served with respect to the response cache
+   *
+   * - `hit`: From a fresh cache entry, without a request
+   * - `stale`: From an expired cache entry while it is refreshed in the background
+   * - `miss`: From a new request whose response is cached
+   * - `shared`: From an identical request that was already in flight
+   * - `off`: Caching is disabled for the request type
+   */
+  export type CacheStatus = 'hit' | 'stale' | 'miss' | 'shared' | 'off';
+
+  /**
+   * Fightcade API Request passed through the Middleware chain
+   *
+   * @param type - Fightcade API Request Type, `body.req`
+   * @param body - Request Body, middleware can pass a changed body to `next()`
+   * @param url - Fightcade API Endpoint
+   * @param signal - Abort Signal of the request, aborts on cancellation and timeout
+   * @param attempts - HTTP Attempts, appended while the request is retried and still available when it fails
+   */
+  export type MiddlewareRequest = {
+    type: RequestType,
+    body: RequestBody,
+    url: string,
+    signal: AbortSignal,
+    attempts: RequestAttempt[],
+  };
+
+  /**
+   * Fightcade API Response passed back through the Middleware chain
+   *
+   * @param value - Parsed Response Body, a body supplied by middleware is validated like a Fightcade response
+   * @param status - HTTP Status Code of the last attempt, `null` if no request was sent
+   * @param cache - Cache Status
+   * @param attempts - Amount of HTTP Attempts
+   * @param duration - Milliseconds from entering the innermost middleware until the response
+   */
+  export type MiddlewareResponse = {
+    value: unknown,
+    status: number | null,
+    cache: CacheStatus,
+    attempts: number,
+    duration: number,
+  };
+
+  /**
+   * Fightcade Client Middleware
+   *
+   * Wraps every Fightcade API request, including cache hits. Call `next()` to continue the chain,
+   * or resolve without calling it to answer the request yourself with a raw Fightcade response body, which is validated like one sent by Fightcade.
+   * Failed requests reject `next()` with their `FightcadeError`.
+   *
+   * @example
+   * ```js
+   * // Log the duration of every Fightcade API request.
+   * client.use(async (request, next) => {
+   *   const response = await next(request);
+   *   console.log(`${request.type} ${response.status ?? response.cache} ${response.duration}ms`);
+   *   return response;
+   * });
+   * ```
+   */
+  export type Middleware = (request: MiddlewareRequest, next: (request: MiddlewareRequest) => Promise<MiddlewareResponse>) => Promise<MiddlewareResponse>;
+
+  /**
+   * Per-Request Cancellation Options, accepted by every endpoint and iterator
+   *
+   * A request that is aborted rejects with `FightcadeAbortError`, one that times out with `FightcadeTimeoutError`.
+   * Iterators apply `timeoutMs` to every page they request.
+   *
+   * @param signal - Abort Signal cancelling the request, including its retries and rate limit waits
+   * @param timeoutMs - `default: the client's timeoutMs` Milliseconds after which the request is abandoned, `0` or `Infinity` disables the timeout
+   *
+   * @example
+   * ```js
+   * // Give up on a user lookup after 3 seconds, or when the command is cancelled.
+   * const user = await Fightcade.GetUser('biggs', {signal: command.signal, timeoutMs: 3000});
+   * ```
+   */
+  export type RequestOptions = {signal?: AbortSignal, timeoutMs?: number};
+
+  /**
+   * `GetReplays()` Arguments
+   *
+   * @param gameid - `default: undefined` Fightcade ROM Name
+   * @param limit - `default: 15` Amount of Replays to request beginning from `offset`
+   * @param offset - `default: 0` Newest Replay number to request
+   * @param best - `default: false` Sort Replays by Fightcade Player Elo
+   * @param since - `default: 0` Millisecond Epoch Timestamp Date
+   * @param ranked - `default: false` Request only Ranked Replays
+   * @param signal - Abort Signal, see `RequestOptions`
+   * @param timeoutMs - Timeout in Milliseconds, see `RequestOptions`
+   */
+  export type ReplaysArgs = RequestOptions & {gameid?: string, limit?: number, offset?: number, best?: boolean, since?: number, ranked?: boolean};
+
+  /**
+   * `GetUserReplays()` Arguments
+   *
+   * @param limit - `default: 15` Amount of Replays to request beginning from `offset`
+   * @param offset - `default: 0` Newest Replay number to request
+   * @param best - `default: false` Sort Replays by Fightcade Player Elo
+   * @param since - `default: 0` Millisecond Epoch Timestamp Date
+   * @param ranked - `default: false` Request only Ranked Replays
+   * @param signal - Abort Signal, see `RequestOptions`
+   * @param timeoutMs - Timeout in Milliseconds, see `RequestOptions`
+   */
+  export type UserReplaysArgs = RequestOptions & {limit?: number, offset?: number, best?: boolean, since?: number, ranked?: boolean};
+
+  /**
+   * `GetRankings()` Arguments
+   *
+   * @param limit - `default: 15` Amount of Players to request beginning from `offset`
+   * @param offset - `default: 0` Top Player number to request
+   * @param byElo - `default: true` Sort Players by Fightcade Elo
+   * @param recent - `default: true` Only Include Recent Players
+   * @param signal - Abort Signal, see `RequestOptions`
+   * @param timeoutMs - Timeout in Milliseconds, see `RequestOptions`
+   */
+  export type RankingsArgs = RequestOptions & {limit?: number, offset?: number, byElo?: boolean, recent?: boolean};
+
+  /**
+   * `GetEvents()` Arguments
+   *
+   * @param gameid - `default: undefined` Fightcade ROM Name. Get all Events if no `gameid` is supplied
+   * @param limit - `default: 15` Amount of Events to request beginning from `offset`
+   * @param offset - `default: 0` Newest Event number to request
+   * @param signal - Abort Signal, see `RequestOptions`
+   * @param timeoutMs - Timeout in Milliseconds, see `RequestOptions`
+   */
+  export type EventsArgs = RequestOptions & {gameid?: string, limit?: number, offset?: number};
+
+  /**
+   * Page of Fightcade Results
+   *
+   * @param results - Results of the requested page
+   * @param count - Total Amount of Results across every page
+   *
+   * @example
+   * ```js
+   * // Print which page of the 'umk3' rankings is shown.
+   * const page = await Fightcade.GetRankingsPage('umk3', {limit: 15, offset: 30});
+   * console.log(`Page 3 of ${Math.ceil(page.count / 15)}`);
+   * ```
+   */
+  export type Page<T> = {
+    results: T[],
+    count: number,
+  };
+
+  /**
+   * `Iterate*()` Pagination Options
+   *
+   * @param pageSize - `default: 15` Amount of results requested per page
+   * @param maxItems - `default: Infinity` Stop after yielding this many results
+   */
+  export type IterateOptions = {pageSize?: number, maxItems?: number};
+
+  /**
+   * `GetUsers()` Progress Report
+   *
+   * @param username - Username that just finished
+   * @param result - Fightcade User or the Error the lookup failed with
+   * @param completed - Amount of finished lookups
+   * @param total - Amount of distinct usernames
+   */
+  export type UsersProgress = {
+    username: string,
+    result: Fightcade.User | FightcadeError,
+    completed: number,
+    total: number,
+  };
+
+  /**
+   * `GetUsers()` Arguments
+   *
+   * @param concurrency - `default: 5` Maximum Amount of lookups in flight, a positive integer or `Infinity`
+   * @param onProgress - Called after every finished lookup
+   * @param signal - Abort Signal cancelling the whole batch, see `RequestOptions`
+   * @param timeoutMs - Timeout in Milliseconds of every lookup, a timed out lookup holds its `FightcadeTimeoutError`
+   */
+  export type UsersArgs = RequestOptions & {concurrency?: number, onProgress?: (progress: UsersProgress) => void};
+
+  /**
+   * Fightcade Client
+   *
+   * Every endpoint of the `Fightcade` namespace bound to a single `ClientOptions` configuration.
+   * See the namespace functions of the same name for documentation.
+   */
+  export type Client = {
+    use(middleware: Middleware): Client,
+    GetUser(username: string, options?: RequestOptions): Promise<Fightcade.User>,
+    GetUsers(usernames: string[], args?: UsersArgs): Promise<Map<string, Fightcade.User | FightcadeError>>,
+    GetReplay(quarkid: string, options?: RequestOptions): Promise<Fightcade.Replay>,
+    GetReplays(): Promise<Fightcade.Replay[]>,
+    GetReplays(args: ReplaysArgs): Promise<Fightcade.Replay[]>,
+    GetUserReplays(username: string): Promise<Fightcade.Replay[]>,
+    GetUserReplays(username: string, args: UserReplaysArgs): Promise<Fightcade.Replay[]>,
+    GetReplayURL(replay: Fightcade.Replay): string,
+    /** @deprecated `GetVideoURL()` is deprecated because `https://fightcadevids.com` is currently abandoned, use `createVideoRegistry()` of `fightcade-api/videos` instead. */
+    GetVideoURL(replay: string | Fightcade.Replay, options?: RequestOptions): Promise<string>,
+    /** @deprecated `GetVideoURLs()` is deprecated because `https://fightcadevids.com` is currently abandoned, use `createVideoRegistry()` of `fightcade-api/videos` instead. */
+    GetVideoURLs(replays: string[] | Fightcade.Replay[], options?: RequestOptions): Promise<Fightcade.VideoURLs>,
+    GetRankings(gameid: string): Promise<Fightcade.Player[]>,
+    GetRankings(gameid: string, args: RankingsArgs): Promise<Fightcade.Player[]>,
+    GetGame(gameid: string, options?: RequestOptions): Promise<Fightcade.Game>,
+    GetEvents(args?: EventsArgs): Promise<Fightcade.Event[]>,
+    GetReplaysPage(args?: ReplaysArgs): Promise<Page<Fightcade.Replay>>,
+    GetUserReplaysPage(username: string, args?: UserReplaysArgs): Promise<Page<Fightcade.Replay>>,
+    GetRankingsPage(gameid: string, args?: RankingsArgs): Promise<Page<Fightcade.Player>>,
+    GetEventsPage(args?: EventsArgs): Promise<Page<Fightcade.Event>>,
+    IterateReplays(args?: Omit<ReplaysArgs, 'limit'> & IterateOptions): AsyncGenerator<Fightcade.Replay, void, undefined>,
+    IterateUserReplays(username: string, args?: Omit<UserReplaysArgs, 'limit'> & IterateOptions): AsyncGenerator<Fightcade.Replay, void, undefined>,
+    IterateRankings(gameid: string, args?: Omit<RankingsArgs, 'limit'> & IterateOptions): AsyncGenerator<Fightcade.Player, void, undefined>,
+    IterateEvents(args?: Omit<EventsArgs, 'limit'> & IterateOptions & {since?: number}): AsyncGenerator<Fightcade.Event, void, undefined>,
+  };
+
+  const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, {once: true});
+  });
+
+  // Queue requests so at most `concurrency` run at once and starts are spaced `1000 / requestsPerSecond` ms apart.
+  const createLimiter = ({concurrency = Infinity, requestsPerSecond = Infinity}: RateLimitOptions) => {
+    const queue: (() => void)[] = [];
+    const interval = 1000 / requestsPerSecond;
+    let active = 0;
+    let next = 0;
+
+    return async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+      signal?.throwIfAborted();
+      if (active < concurrency) active++;
+      else {
+        // An aborted request leaves the queue so it is never handed a slot.
+        await new Promise<void>((resolve, reject) => {
+          const start = () => {
+            signal?.removeEventListener('abort', abort);
+            resolve();
+          };
+          const abort = () => {
+            queue.splice(queue.indexOf(start), 1);
+            reject(signal?.reason);
+          };
+          queue.push(start);
+          signal?.addEventListener('abort', abort, {once: true});
+        });
+      }
+      try {
+        const now = Date.now();
+        const wait = next - now;
+        next = Math.max(now, next) + interval;
+        if (wait > 0) await sleep(wait, signal);
+        return await task();
+      } finally {
+        // Hand the slot straight to the next queued request instead of releasing it.
+        const resolve = queue.shift();
+        if (resolve) resolve();
+        else active--;
+      }
+    };
+  };
+
+  // Walk pages from `offset` until `count` is exhausted, `maxItems` were yielded or `isPast` reports the cutoff was reached.
+  async function* paginate<T>(getPage: (offset: number, limit: number) => Promise<Page<T>>, args: {offset?: number} & IterateOptions, isPast: (item: T) => boolean = () => false): AsyncGenerator<T, void, undefined> {
+    const {pageSize = 15, maxItems = Infinity} = args;
+    let offset = args.offset ?? 0;
+    let yielded = 0;
+    while (yielded < maxItems) {
+      const page = await getPage(offset, Math.min(pageSize, maxItems - yielded));
+      for (const item of page.results) {
+        if (isPast(item)) return;
+        yield item;
+        if (++yielded >= maxItems) return;
+      }
+      offset += page.results.length;
+      if (page.results.length === 0 || offset >= page.count) return;
+    }
+  }
+
+  const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  // Zod drops fields missing from a schema, so every field of the raw value the parsed value lacks is unknown.
+  const unknownFields = (raw: unknown, parsed: unknown, path: string[] = []): string[] => {
+    if (Array.isArray(raw) && Array.isArray(parsed)) return raw.flatMap((item, i) => unknownFields(item, parsed[i], [...path, String(i)]));
+    if (!isPlainObject(raw) || !isPlainObject(parsed)) return [];
+    return Object.keys(raw).flatMap(key => (key in parsed) ? unknownFields(raw[key], parsed[key], [...path, key]) : [[...path, key].join('.')]);
+  };
+
+  // Replace every invalid value with `null`, or remove it if `null` is invalid too, until the value matches the schema.
+  // This recovers optional and nullable fields such as an unknown rank number, anything else is left invalid.
+  const recover = <T extends z.ZodTypeAny>(schema: T, raw: unknown): {value: unknown, parsed: z.infer<T>} | null => {
+    const value: unknown = structuredClone(raw);
+    const tried = new Set<string>();
+    let result = schema.safeParse(value);
+    while (!result.success) {
+      const issue = result.error.issues.find(issue => issue.path.length && !tried.has(`${issue.path.join('.')}:undefined`));
+      if (!issue) return null;
+      const path = issue.path.join('.');
+      const key = issue.path.at(-1)!;
+      let parent = value;
+      for (const segment of issue.path.slice(0, -1)) parent = (isPlainObject(parent) || Array.isArray(parent)) ? (parent as Record<string | number, unknown>)[segment] : undefined;
+      if (!tried.has(`${path}:null`) && (isPlainObject(parent) || Array.isArray(parent))) {
+        tried.add(`${path}:null`);
+        (parent as Record<string | number, unknown>)[key] = null;
+      } else if (isPlainObject(parent)) {
+        tried.add(`${path}:undefined`);
+        delete parent[key];
+      } else {
+        return null;
+      }
+      result = schema.safeParse(value);
+    }
+    return {value, parsed: result.data};
+  };
+
+  const isRetryable = (e: unknown) => (e instanceof FightcadeNetworkError) || ((e instanceof FightcadeHttpError) && (e.status === 429 || e.status >= 500));
+
+  // `Retry-After` is either a delay in seconds or an HTTP date.
+  const retryAfter = (e: unknown): number | undefined => {
+    const header = (e instanceof FightcadeHttpError) ? (e.headers?.get('Retry-After') ?? null) : null;
+    if (header === null) return undefined;
+    const ms = /^\d+$/.test(header.trim()) ? Number(header) * 1000 : Date.parse(header) - Date.now();
+    return Number.isNaN(ms) ? undefined : Math.max(ms, 0);
+  };
+
+  /**
+   * Create a Fightcade Client
+   *
+   * @param options - Fightcade Client Options
+   *
+   * @example
+   * ```js
+   * // Print the account creation date for the user 'biggs' using a client with a custom User-Agent.
+   * const client = Fightcade.createClient({headers: {'User-Agent': 'my-bot/1.0'}});
+   * const user = await client.GetUser('biggs');
+   * console.log(new Date(user.date).toString());
+   * ```
+   */
+  export function createClient(options: ClientOptions = {}): Fightcade.Client {
+    const baseUrls: BaseURLs = {api: URL.API, replay: URL.REPLAY, vids: URL.VIDS, ...options.baseUrls};
+    const headers = {'Content-Type': 'application/json', ...options.headers};
+
+    const limit = createLimiter(options.rateLimit ?? {});
+    const {retries = 3, minDelay = 250, maxDelay = 10000} = options.retry || {retries: 0};
+
+    const send = async (url: string, body: object, signal?: AbortSignal, attempt?: RequestAttempt): Promise<unknown> => {
+      let response: Response;
+      let text: string;
+      try {
+        [response, text] = await abortable((async () => {
+          // Record what the transport actually sends, since it may change the method and URL.
+          const record: Fetch = (input, init) => {
+            if (attempt) Object.assign(attempt, {method: init.method ?? 'GET', url: input});
+            // Resolve the global fetch lazily so it can still be replaced after the client is created.
+            return (options.fetch ?? fetch)(input, init);
+          };
+          const response = await (options.transport ?? directTransport)({url, body, headers, ...(signal !== undefined && {signal})}, record);
+          if (attempt) attempt.status = response.status;
+          return [response, await response.text()] as const;
+        })(), signal);
+      } catch (e) {
+        if (signal?.aborted) throw signal.reason;
+        throw new FightcadeNetworkError(url, e);
+      }
+      let json: unknown = text;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        if (response.ok) throw new FightcadeSchemaError([{code: 'custom', path: [], message: 'Response is not valid JSON'}], text);
+      }
+      if (!response.ok) throw new FightcadeHttpError(response.status, response.statusText, json, response.headers);
+      return json;
+    };
+
+    // Only the idempotent Fightcade API requests are retried, every attempt goes through the rate limiter.
+    const post = async (url: string, body: object, retry = false, signal?: AbortSignal, attempts: RequestAttempt[] = []): Promise<unknown> => {
+      for (let attempt = 0; ; attempt++) {
+        // An attempt only counts once the rate limiter started it.
+        const record: RequestAttempt = {status: null, duration: 0};
+        try {
+          return await limit(async () => {
+            attempts.push(record);
+            const started = Date.now();
+            try {
+              return await send(url, body, signal, record);
+            } finally {
+              record.duration = Date.now() - started;
+            }
+          }, signal);
+        } catch (e) {
+          record.error = e;
+          if (signal?.aborted || !retry || attempt >= retries || !isRetryable(e)) throw e;
+          await sleep(Math.min(maxDelay, retryAfter(e) ?? Math.random() * minDelay * 2 ** attempt), signal);
+        }
+      }
+    };
+
+    // Cached responses were already reported when they were requested, so they are parsed `quiet`ly.
+    const parse = <T extends z.ZodTypeAny>(schema: T, json: unknown, url: string, quiet = false): z.infer<T> => {
+      if (options.parsing === 'passthrough') return json;
+      const result = schema.safeParse(json);
+      if (options.parsing !== 'lenient') {
+        if (!result.success) throw new FightcadeSchemaError(result.error.issues, json);
+        return result.data;
+      }
+      const recovered = result.success ? {value: json, parsed: result.data} : recover(schema, json);
+      const fields = recovered ? unknownFields(recovered.value, recovered.parsed) : [];
+      if (!quiet && (!result.success || fields.length)) {
+        options.onSchemaDrift?.({url, issues: result.success ? [] : result.error.issues, unknownFields: fields, recovered: recovered !== null, body: json});
+      }
+      return recovered ? recovered.value : json;
+    };
+
+    // Fightcade reports failures as HTTP 200 with a `res` other than 'OK', e.g. an unknown username.
+    const validate = <T extends z.ZodTypeAny>(json: unknown, schema: T, missing?: ConstructorParameters<typeof FightcadeNotFoundError>): z.infer<T> => {
+      const res = (typeof json === 'object' && json !== null && 'res' in json) ? json.res : undefined;
+      if (res !== undefined && res !== 'OK') {
+        if (missing && typeof res === 'string' && /not.?found|does ?n[o']t exist|no such/i.test(res)) throw new FightcadeNotFoundError(...missing);
+        throw new FightcadeApiError(res, json);
+      }
+      return parse(schema, json, baseUrls.api);
+    };
+
+    const request = async <T extends z.ZodTypeAny>(body: RequestBody, schema: T, missing?: ConstructorParameters<typeof FightcadeNotFoundError>, signal?: AbortSignal, attempts?: RequestAttempt[]): Promise<z.infer<T>> => {
+      const json = await post(baseUrls.api, body, true, signal, attempts);
+      signal?.throwIfAborted();
+      return validate(json, schema, missing);
+    };
+
+    const cache = options.cache && {store: options.cache.store ?? createMemoryCache(), ttl: {...DefaultTTL, ...options.cache.ttl}, staleWhileRevalidate: options.cache.staleWhileRevalidate ?? 0};
+    const inflight = new Map<string, {promise: Promise<unknown>, controller: AbortController, waiting: number}>();
+
+    // Identical requests share one round trip while in flight, then the parsed response is cached.
+    // The shared round trip is only cancelled once every request waiting for it was aborted.
+    const load = async <T extends z.ZodTypeAny>(key: string, body: RequestBody, schema: T, missing?: ConstructorParameters<typeof FightcadeNotFoundError>, signal?: AbortSignal, attempts?: RequestAttempt[]): Promise<z.infer<T>> => {
+      let shared = inflight.get(key);
+      if (!shared) {
+        const controller = new AbortController();
+        const promise = (async () => {
+          try {
+            const value = await request(body, schema, missing, controller.signal, attempts);
+            const now = Date.now();
+            const ttl = cache ? cache.ttl[body.req] : 0;
+            if (cache && ttl > 0) await cache.store.set(key, {value, expires: now + ttl, staleUntil: now + ttl + cache.staleWhileRevalidate});
+            return value;
+          } finally {
+            inflight.delete(key);
+          }
+        })();
+        shared = {promise, controller, waiting: 0};
+        inflight.set(key, shared);
+      }
+      const {promise, controller} = shared;
+      shared.waiting++;
+      try {
+        return await abortable(promise, signal);
+      } catch (e) {
+        if (signal?.aborted && --shared.waiting === 0) controller.abort(signal.reason);
+        throw e;
+      }
+    };
+
+    const middleware = [...options.middleware ?? []];
+
+    // Time out after the request or client timeout, and report aborts and timeouts against `url`.
+    const startDeadline = (url: string, args: RequestOptions) => {
+      const timeoutMs = args.timeoutMs ?? options.timeoutMs;
+      return createDeadline(args.signal, timeoutMs, {timeout: () => new FightcadeTimeoutError(url, timeoutMs ?? 0), abort: reason => new FightcadeAbortError(url, reason)});
+    };
+
+    const api = async <T extends z.ZodTypeAny>(body: RequestBody, schema: T, missing?: ConstructorParameters<typeof FightcadeNotFoundError>, args: RequestOptions = {}): Promise<z.infer<T>> => {
+      const deadline = startDeadline(baseUrls.api, args);
+
+      const handled = new Set<unknown>();
+      const handle = async ({body, signal, attempts}: MiddlewareRequest): Promise<MiddlewareResponse> => {
+        const started = Date.now();
+        const respond = (value: unknown, cached: CacheStatus) => {
+          handled.add(value);
+          return {value, status: attempts.at(-1)?.status ?? null, cache: cached, attempts: attempts.length, duration: Date.now() - started};
+        };
+        try {
+          if (!cache || cache.ttl[body.req] <= 0) return respond(await request(body, schema, missing, signal, attempts), 'off');
+          // Sort the keys so argument order does not matter.
+          const key = JSON.stringify(body, Object.keys(body).sort());
+          const entry = await abortable(Promise.resolve(cache.store.get(key)), signal);
+          const now = Date.now();
+          if (entry && now < entry.expires) return respond(parse(schema, entry.value, baseUrls.api, true), 'hit');
+          if (entry && now < entry.staleUntil) {
+            load(key, body, schema, missing).catch(() => {});
+            return respond(parse(schema, entry.value, baseUrls.api, true), 'stale');
+          }
+          const shared = inflight.has(key);
+          return respond(await load(key, body, schema, missing, signal, attempts), shared ? 'shared' : 'miss');
+        } catch (e) {
+          throw deadline.error() ?? e;
+        }
+      };
+
+      // A request keeps the middleware that was registered when it started.
+      const chain = [...middleware];
+      const dispatch = (index: number) => (request: MiddlewareRequest): Promise<MiddlewareResponse> => {
+        const next = chain[index];
+        return next ? next(request, dispatch(index + 1)) : handle(request);
+      };
+      try {
+        const {value} = await dispatch(0)({type: body.req, body, url: baseUrls.api, signal: deadline.signal, attempts: []});
+        // Values middleware answered with itself have not been validated yet.
+        return handled.has(value) ? value : validate(value, schema, missing);
+      } catch (e) {
+        throw deadline.error() ?? e;
+      } finally {
+        deadline.clear();
+      }
+    };
+
+    const toQuarkid = (replay: string | Fightcade.Replay) => (typeof replay === 'string') ? replay : replay.quarkid;
+
+    // FightcadeVids requests skip the middleware and cache, but are cancelled and timed out like Fightcade API requests.
+    const videos = async (ids: string[], args: RequestOptions) => {
+      const deadline = startDeadline(baseUrls.vids, args);
+      try {
+        return parse(VideoURLsSchema, await post(baseUrls.vids, {ids}, false, deadline.signal), baseUrls.vids);
+      } catch (e) {
+        throw deadline.error() ?? e;
+      } finally {
+        deadline.clear();
+      }
+    };
+
+    // Request Options are not sent to Fightcade.
+    const query = <T extends RequestOptions>({signal, timeoutMs, ...args}: T) => args;
+
+    // gameid = undefined, limit = 15, offset = 0, best = false, since = 0, boolean = false
+    const GetReplaysPage = async (args: ReplaysArgs = {}) => (await api({req: 'searchquarks', ...query(args)}, ReplayResultsResponseSchema, undefined, args)).results;
+    // limit = 15, offset = 0, best = false, since = 0, ranked = false
+    const GetUserReplaysPage = async (username: string, args: UserReplaysArgs = {}) => (await api({req: 'searchquarks', username, ...query(args)}, ReplayResultsResponseSchema, ['user', username], args)).results;
+    // limit = 15, offset = 0, byElo = true, recent = true
+    const GetRankingsPage = async (gameid: string, args: RankingsArgs = {}) => (await api({req: 'searchrankings', gameid, ...query(args)}, PlayerResultsResponseSchema, ['game', gameid], args)).results;
+    // gameid = undefined, limit = 15, offset = 0
+    const GetEventsPage = async (args: EventsArgs = {}) => (await api({req: 'searchevents', ...query(args)}, EventResultsResponseSchema, undefined, args)).results;
+
+    // Replays sorted by Elo are not ordered by date, so only the request itself can honor `since` then.
+    const olderThan = (since?: number, ordered = true) => (item: {date: number}) => ordered && since !== undefined && item.date < since;
+
+    const GetUser = async (username: string, options: RequestOptions = {}) => (await api({req: 'getuser', username}, UserResponseSchema, ['user', username], options)).user;
+
+    const client: Fightcade.Client = {
+      use(added) {
+        middleware.push(added);
+        return client;
+      },
+      GetUser,
+      async GetUsers(usernames: string[], args: UsersArgs = {}) {
+        const {concurrency = 5, onProgress, signal, timeoutMs} = args;
+        assertConcurrency(concurrency);
+        // Keep the first spelling of every case-insensitively distinct username.
+        const spellings = new Map<string, string>();
+        for (const username of usernames) {
+          if (!spellings.has(username.toLowerCase())) spellings.set(username.toLowerCase(), username);
+        }
+        const distinct = [...spellings.values()];
+        const results = new Map<string, Fightcade.User | FightcadeError>();
+        await pool(distinct, concurrency, async (username) => {
+          let result: Fightcade.User | FightcadeError;
+          try {
+            result = await GetUser(username, {...(signal !== undefined && {signal}), ...(timeoutMs !== undefined && {timeoutMs})});
+          } catch (e) {
+            // Aborting cancels the whole batch, a timeout only fails its own lookup.
+            if (!(e instanceof FightcadeError) || e instanceof FightcadeAbortError) throw e;
+            result = e;
+          }
+          results.set(username, result);
+          onProgress?.({username, result, completed: results.size, total: distinct.length});
+        });
+        // Report results in input order rather than completion order.
+        return new Map(distinct.map(username => [username, results.get(username)!]));
+      },
+      async GetReplay(quarkid: string, options: RequestOptions = {}) {
+        const replay = (await api({req: 'searchquarks', quarkid}, ReplayResultsResponseSchema, ['replay', quarkid], options)).results.results.at(0);
+        if (!replay) throw new FightcadeNotFoundError('replay', quarkid);
+        return replay;
+      },
+      async GetReplays(args: ReplaysArgs = {}) {
+        return (await GetReplaysPage(args)).results;
+      },
+      async GetUserReplays(username: string, args: UserReplaysArgs = {}) {
+        return (await GetUserReplaysPage(username, args)).results;
+      },
+      GetReplayURL(replay: Fightcade.Replay) {
+        return `${baseUrls.replay}${replay.emulator}/${replay.gameid}/${replay.quarkid}`;
+      },
+      async GetVideoURL(replay: string | Fightcade.Replay, options: RequestOptions = {}) {
+        const url = (await videos([toQuarkid(replay)], options))[toQuarkid(replay)];
+        if (url) return url;
+        throw new FightcadeNotFoundError('video', toQuarkid(replay));
+      },
+      async GetVideoURLs(replays: string[] | Fightcade.Replay[], options: RequestOptions = {}) {
+        return videos(replays.map(toQuarkid), options);
+      },
+      async GetRankings(gameid: string, args: RankingsArgs = {}) {
+        return (await GetRankingsPage(gameid, args)).results;
+      },
+      async GetGame(gameid: string, options: RequestOptions = {}) {
+        return (await api({req: 'gameinfo', gameid}, GameResponseSchema, ['game', gameid], options)).game;
+      },
+      async GetEvents(args: EventsArgs = {}) {
+        return (await GetEventsPage(args)).results;
+      },
+      GetReplaysPage,
+      GetUserReplaysPage,
+      GetRankingsPage,
+      GetEventsPage,
+      IterateReplays(args = {}) {
+        const {pageSize, maxItems, ...query} = args;
+        return paginate((offset, limit) => GetReplaysPage({...query, offset, limit}), args, olderThan(args.since, !args.best));
+      },
+      IterateUserReplays(username, args = {}) {
+        const {pageSize, maxItems, ...query} = args;
+        return paginate((offset, limit) => GetUserReplaysPage(username, {...query, offset, limit}), args, olderThan(args.since, !args.best));
+      },
+      IterateRankings(gameid, args = {}) {
+        const {pageSize, maxItems, ...query} = args;
+        return paginate((offset, limit) => GetRankingsPage(gameid, {...query, offset, limit}), args);
+      },
+      IterateEvents(args = {}) {
+        const {pageSize, maxItems, since, ...query} = args;
+        return paginate((offset, limit) => GetEventsPage({...query, offset, limit}), args, olderThan(since));
+      },
+    };
+    return client;
+  }
+
+  // Client behind the `Fightcade.*` namespace functions.
+  const DefaultClient = createClient();
+
+  /**
+   * Add a Middleware to the client behind the `Fightcade.*` namespace functions
+   *
+   * @param middleware - Fightcade Client Middleware
+   *
+   * @example
+   * ```js
+   * // Count the Fightcade API requests per request type.
+   * const counts = {};
+   * Fightcade.use(async (request, next) => {
+   *   counts[request.type] = (counts[request.type] ?? 0) + 1;
+   *   return next(request);
+   * });
+   * ```
+   */
+  export function use(middleware: Middleware): Fightcade.Client {
+    return DefaultClient.use(middleware);
+  }
+
   /**
    * Get Fightcade User Info by Username
    *
    * @param username - Fightcade Username
+   * @param options - Request Options
    *
    * @example
    * ```js
@@ -304,19 +1423,41 @@ export namespace Fightcade {
    * });
    * ```
    */
-  export async function GetUser(username: string): Promise<Fightcade.User> {
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'getuser', username}),
-    });
-    return UserResponseSchema.parse(await response.json()).user;
+  export async function GetUser(username: string, options: RequestOptions = {}): Promise<Fightcade.User> {
+    return DefaultClient.GetUser(username, options);
+  }
+
+  /**
+   * Get several Fightcade Users by Username
+   *
+   * Usernames are de-duplicated case-insensitively. A failed lookup does not fail the batch,
+   * its entry holds the `FightcadeError` instead, e.g. `FightcadeNotFoundError` for a misspelled username.
+   *
+   * @param usernames - Fightcade Usernames
+   * @param args.concurrency - `default: 5` Maximum Amount of lookups in flight, other values than a positive integer or `Infinity` reject with a `RangeError`
+   * @param args.onProgress - Called after every finished lookup
+   * @param args.signal - Abort Signal cancelling the whole batch, see `RequestOptions`
+   * @param args.timeoutMs - Timeout in Milliseconds of every lookup, see `RequestOptions`
+   *
+   * @example
+   * ```js
+   * // Print the account creation date of every user on a roster.
+   * const users = await Fightcade.GetUsers(['biggs', 'Biggs', 'misspelled'], {concurrency: 2});
+   * users.forEach((user, username) => {
+   *   if (user instanceof Fightcade.FightcadeError) console.log(`${username}: ${user.message}`);
+   *   else console.log(`${username}: ${new Date(user.date).toString()}`);
+   * });
+   * ```
+   */
+  export async function GetUsers(usernames: string[], args: UsersArgs = {}): Promise<Map<string, Fightcade.User | FightcadeError>> {
+    return DefaultClient.GetUsers(usernames, args);
   }
 
   /**
    * Get Fightcade Replay by Challenge ID
    *
    * @param quarkid - Fightcade Challenge ID
+   * @param options - Request Options
    *
    * @exmaple
    * ```js
@@ -326,13 +1467,8 @@ export namespace Fightcade {
    * console.log(date.toString());
    * ```
    */
-  export async function GetReplay(quarkid: string): Promise<Fightcade.Replay> {
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'searchquarks', quarkid}),
-    });
-    return ReplaySchema.parse(ReplayResultsResponseSchema.parse(await response.json()).results.results.at(0));
+  export async function GetReplay(quarkid: string, options: RequestOptions = {}): Promise<Fightcade.Replay> {
+    return DefaultClient.GetReplay(quarkid, options);
   }
 
   /**
@@ -355,6 +1491,8 @@ export namespace Fightcade {
    * @param args.best - `default: false` Sort Replays by Fightcade Player Elo
    * @param args.since - `default: 0` Millisecond Epoch Timestamp Date
    * @param args.ranked - `default: false` Request only Ranked Replays
+   * @param args.signal - Abort Signal, see `RequestOptions`
+   * @param args.timeoutMs - Timeout in Milliseconds, see `RequestOptions`
    *
    * @example
    * ```js
@@ -364,15 +1502,9 @@ export namespace Fightcade {
    * replays.forEach(replay => console.log(replay.channelname));
    * ```
    */
-  export async function GetReplays(args: {gameid?: string, limit?: number, offset?: number, best?: boolean, since?: number, ranked?: boolean}): Promise<Fightcade.Replay[]>;
-  export async function GetReplays(args = {}): Promise<Fightcade.Replay[]> {
-    // gameid = undefined, limit = 15, offset = 0, best = false, since = 0, boolean = false
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'searchquarks', ...args}),
-    });
-    return ReplayResultsResponseSchema.parse(await response.json()).results.results;
+  export async function GetReplays(args: ReplaysArgs): Promise<Fightcade.Replay[]>;
+  export async function GetReplays(args: ReplaysArgs = {}): Promise<Fightcade.Replay[]> {
+    return DefaultClient.GetReplays(args);
   }
 
   /**
@@ -397,6 +1529,8 @@ export namespace Fightcade {
    * @param args.best - `default: false` Sort Replays by Fightcade Player Elo
    * @param args.since - `default: 0` Millisecond Epoch Timestamp Date
    * @param args.ranked - `default: false` Request only Ranked Replays
+   * @param args.signal - Abort Signal, see `RequestOptions`
+   * @param args.timeoutMs - Timeout in Milliseconds, see `RequestOptions`
    *
    * @example
    * ```js
@@ -406,15 +1540,9 @@ export namespace Fightcade {
    * replays.forEach(replay => console.log(replay.channelname));
    * ```
    */
-  export async function GetUserReplays(username: string, args: {limit?: number, offset?: number, best?: boolean, since?: number, ranked?: boolean}): Promise<Fightcade.Replay[]>;
-  export async function GetUserReplays(username: string, args = {}): Promise<Fightcade.Replay[]> {
-    // limit = 15, offset = 0, best = false, since = 0, ranked = false
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'searchquarks', username, ...args}),
-    });
-    return ReplayResultsResponseSchema.parse(await response.json()).results.results;
+  export async function GetUserReplays(username: string, args: UserReplaysArgs): Promise<Fightcade.Replay[]>;
+  export async function GetUserReplays(username: string, args: UserReplaysArgs = {}): Promise<Fightcade.Replay[]> {
+    return DefaultClient.GetUserReplays(username, args);
   }
 
   /**
@@ -427,14 +1555,15 @@ export namespace Fightcade {
    * user_replays.forEach(replay => console.log(Fightcade.GetReplayURL(replay)));
    * ```
    */
-  export const GetReplayURL = (replay: Fightcade.Replay) => `${URL.REPLAY}${replay.emulator}/${replay.gameid}/${replay.quarkid}`;
+  export const GetReplayURL = (replay: Fightcade.Replay) => DefaultClient.GetReplayURL(replay);
 
   /**
-   * @deprecated `GetVideoURL()` is deprecated because `https://fightcadevids.com` is currently abandoned.
+   * @deprecated `GetVideoURL()` is deprecated because `https://fightcadevids.com` is currently abandoned, use `createVideoRegistry()` of `fightcade-api/videos` instead.
    *
    * Get FightcadeVids URL of Fightcade Replay if it exists
    *
    * @param replay Fightcade Challenge ID
+   * @param options - Request Options
    *
    * @example
    * ```js
@@ -444,13 +1573,14 @@ export namespace Fightcade {
    * console.log(url ?? 'Replay not found.');
    * ```
    */
-  export async function GetVideoURL(replay: string): Promise<string>;
+  export async function GetVideoURL(replay: string, options?: RequestOptions): Promise<string>;
   /**
-   * @deprecated `GetVideoURL()` is deprecated because `https://fightcadevids.com` is currently abandoned.
+   * @deprecated `GetVideoURL()` is deprecated because `https://fightcadevids.com` is currently abandoned, use `createVideoRegistry()` of `fightcade-api/videos` instead.
    *
    * Get FightcadeVids URL of Fightcade Replay if it exists
    *
    * @param replay Fightcade Replay Object
+   * @param options - Request Options
    *
    * @example
    * ```js
@@ -459,24 +1589,18 @@ export namespace Fightcade {
    * console.log(url ?? 'Replay not found.');
    * ```
    */
-  export async function GetVideoURL(replay: Fightcade.Replay): Promise<string>;
-  export async function GetVideoURL(replay: string | Fightcade.Replay): Promise<string> {
-    const response = await fetch(URL.VIDS, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({ids: [(typeof replay === 'string') ? replay : replay.quarkid]}),
-    });
-    const url = VideoURLResponse.parse(await response.json())[(typeof replay === 'string') ? replay : replay.quarkid];
-    if (url) return url;
-    throw Error(`Property '${(typeof replay === 'string') ? replay : replay.quarkid}' does not exist on type 'Fightcade.VideoURLs'`);
+  export async function GetVideoURL(replay: Fightcade.Replay, options?: RequestOptions): Promise<string>;
+  export async function GetVideoURL(replay: string | Fightcade.Replay, options: RequestOptions = {}): Promise<string> {
+    return DefaultClient.GetVideoURL(replay, options);
   }
 
   /**
-   * @deprecated `GetVideoURLs()` is deprecated because `https://fightcadevids.com` is currently abandoned.
+   * @deprecated `GetVideoURLs()` is deprecated because `https://fightcadevids.com` is currently abandoned, use `createVideoRegistry()` of `fightcade-api/videos` instead.
    *
    * Get a list of FightcadeVids URLs from a list of Fightcade Replays if they exist
    *
    * @param replays Fightcade Challenge IDs
+   * @param options - Request Options
    * @returns Empty array if there are no valid URLs
    *
    * @example
@@ -487,13 +1611,14 @@ export namespace Fightcade {
    * Object.values(urls).forEach(url => console.log(url));
    * ```
    */
-  export async function GetVideoURLs(replays: string[]): Promise<Fightcade.VideoURLs>;
+  export async function GetVideoURLs(replays: string[], options?: RequestOptions): Promise<Fightcade.VideoURLs>;
   /**
-   * @deprecated `GetVideoURLs()` is deprecated because `https://fightcadevids.com` is currently abandoned.
+   * @deprecated `GetVideoURLs()` is deprecated because `https://fightcadevids.com` is currently abandoned, use `createVideoRegistry()` of `fightcade-api/videos` instead.
    *
    * Get a list of FightcadeVids URLs from a list of Fightcade Replays if they exist
    *
    * @param replays Fightcade Replay Objects
+   * @param options - Request Options
    * @returns Empty array if there are no valid URLs
    *
    * @example
@@ -504,14 +1629,9 @@ export namespace Fightcade {
    * Object.values(urls).forEach(url => console.log(url));
    * ```
    */
-  export async function GetVideoURLs(replays: Fightcade.Replay[]): Promise<Fightcade.VideoURLs>;
-  export async function GetVideoURLs(replays: string[] | Fightcade.Replay[]): Promise<Fightcade.VideoURLs> {
-    const response = await fetch(URL.VIDS, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({ids: replays.map(replay => (typeof replay === 'string') ? replay : replay.quarkid)}),
-    });
-    return VideoURLResponse.parse(await response.json());
+  export async function GetVideoURLs(replays: Fightcade.Replay[], options?: RequestOptions): Promise<Fightcade.VideoURLs>;
+  export async function GetVideoURLs(replays: string[] | Fightcade.Replay[], options: RequestOptions = {}): Promise<Fightcade.VideoURLs> {
+    return DefaultClient.GetVideoURLs(replays, options);
   }
 
   /**
@@ -539,6 +1659,8 @@ export namespace Fightcade {
    * @param args.offset - `default: 0` Newest Replay number to request
    * @param args.byElo - `default: true` Sort Players by Fightcade Elo
    * @param args.recent - `default: true` Only Include Recent Players
+   * @param args.signal - Abort Signal, see `RequestOptions`
+   * @param args.timeoutMs - Timeout in Milliseconds, see `RequestOptions`
    *
    * @example
    * ```js
@@ -551,21 +1673,16 @@ export namespace Fightcade {
    * }});
    * ```
    */
-  export async function GetRankings(gameid: string, args: {limit?: number, offset?: number, byElo?: boolean, recent?: boolean}): Promise<Fightcade.Player[]>;
-  export async function GetRankings(gameid: string, args = {}): Promise<Fightcade.Player[]> {
-    // limit = 15, offset = 0, byElo = true, recent = true
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'searchrankings', gameid, ...args}),
-    });
-    return PlayerResultsResponseSchema.parse(await response.json()).results.results;
+  export async function GetRankings(gameid: string, args: RankingsArgs): Promise<Fightcade.Player[]>;
+  export async function GetRankings(gameid: string, args: RankingsArgs = {}): Promise<Fightcade.Player[]> {
+    return DefaultClient.GetRankings(gameid, args);
   }
 
   /**
    * Get Fightcade Game Info
    *
    * @param gameid - Fightcade ROM Name
+   * @param options - Request Options
    *
    * @example
    * ```js
@@ -574,13 +1691,8 @@ export namespace Fightcade {
    * console.log(game.publisher);
    * ```
    */
-  export async function GetGame(gameid: string): Promise<Fightcade.Game> {
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'gameinfo', gameid}),
-    });
-    return GameResponseSchema.parse(await response.json()).game;
+  export async function GetGame(gameid: string, options: RequestOptions = {}): Promise<Fightcade.Game> {
+    return DefaultClient.GetGame(gameid, options);
   }
 
   /**
@@ -589,6 +1701,8 @@ export namespace Fightcade {
    * @param args.gameid - `deafult: undefined` Fightcade ROM Name. Get all Events if no `gameid` is supplied
    * @param args.limit - `default: 15` Amount of Replays to request beginning from `offset`
    * @param args.offset - `default: 0` Newest Replay number to request
+   * @param args.signal - Abort Signal, see `RequestOptions`
+   * @param args.timeoutMs - Timeout in Milliseconds, see `RequestOptions`
    *
    * @returns Empty array if there are no active Events
    *
@@ -599,19 +1713,164 @@ export namespace Fightcade {
    * events.forEach(event => console.log(event));
    * ```
    */
-  export async function GetEvents(args: {gameid?: string, limit?: number, offset?: number} = {}): Promise<Fightcade.Event[]> {
-    // gameid = undefined, limit = 15, offset = 0
-    const response = await fetch(URL.API, {
-      method: 'POST',
-      headers: {'Content-Type': 'application/json'},
-      body: JSON.stringify({req: 'searchevents', ...args}),
-    });
-    return EventResultsResponseSchema.parse(await response.json()).results.results;
+  export async function GetEvents(args: EventsArgs = {}): Promise<Fightcade.Event[]> {
+    return DefaultClient.GetEvents(args);
+  }
+
+  /**
+   * Get a Page of Fightcade Replays with the Total Replay Count
+   *
+   * @param args - `GetReplays()` Arguments
+   *
+   * @example
+   * ```js
+   * // Print the amount of ranked 'umk3' replays next to the first page.
+   * const page = await Fightcade.GetReplaysPage({gameid: 'umk3', ranked: true});
+   * console.log(`Showing ${page.results.length} of ${page.count} replays`);
+   * ```
+   */
+  export async function GetReplaysPage(args: ReplaysArgs = {}): Promise<Fightcade.Page<Fightcade.Replay>> {
+    return DefaultClient.GetReplaysPage(args);
+  }
+
+  /**
+   * Get a Page of a Fightcade User's Replays with the Total Replay Count
+   *
+   * @param username - Fightcade Username
+   * @param args - `GetUserReplays()` Arguments
+   *
+   * @example
+   * ```js
+   * // Print the amount of replays belonging to the user 'biggs'.
+   * const page = await Fightcade.GetUserReplaysPage('biggs');
+   * console.log(page.count);
+   * ```
+   */
+  export async function GetUserReplaysPage(username: string, args: UserReplaysArgs = {}): Promise<Fightcade.Page<Fightcade.Replay>> {
+    return DefaultClient.GetUserReplaysPage(username, args);
+  }
+
+  /**
+   * Get a Page of a Fightcade Game's Ranked Players with the Total Player Count
+   *
+   * @param gameid - Fightcade ROM Name
+   * @param args - `GetRankings()` Arguments
+   *
+   * @example
+   * ```js
+   * // Print page 3 of the 'umk3' rankings.
+   * const page = await Fightcade.GetRankingsPage('umk3', {limit: 15, offset: 30});
+   * console.log(`Page 3 of ${Math.ceil(page.count / 15)}`);
+   * page.results.forEach(player => console.log(player.name));
+   * ```
+   */
+  export async function GetRankingsPage(gameid: string, args: RankingsArgs = {}): Promise<Fightcade.Page<Fightcade.Player>> {
+    return DefaultClient.GetRankingsPage(gameid, args);
+  }
+
+  /**
+   * Get a Page of Fightcade Events with the Total Event Count
+   *
+   * @param args - `GetEvents()` Arguments
+   *
+   * @example
+   * ```js
+   * // Print the amount of active events for 'garou'.
+   * const page = await Fightcade.GetEventsPage({gameid: 'garou'});
+   * console.log(page.count);
+   * ```
+   */
+  export async function GetEventsPage(args: EventsArgs = {}): Promise<Fightcade.Page<Fightcade.Event>> {
+    return DefaultClient.GetEventsPage(args);
+  }
+
+  /**
+   * Iterate over every Fightcade Replay, requesting pages as needed
+   *
+   * @param args - `GetReplays()` Arguments without `limit`
+   * @param args.pageSize - `default: 15` Amount of Replays requested per page
+   * @param args.maxItems - `default: Infinity` Stop after yielding this many Replays
+   * @param args.since - `default: 0` Stop at the first Replay older than this Millisecond Epoch Timestamp Date
+   *
+   * @example
+   * ```js
+   * // Print the channel names of every 'umk3' replay from the last 24 hours.
+   * const since = Date.now() - 24 * 60 * 60 * 1000;
+   * for await (const replay of Fightcade.IterateReplays({gameid: 'umk3', since, pageSize: 50})) {
+   *   console.log(replay.channelname);
+   * }
+   * ```
+   */
+  export function IterateReplays(args: Omit<ReplaysArgs, 'limit'> & IterateOptions = {}): AsyncGenerator<Fightcade.Replay, void, undefined> {
+    return DefaultClient.IterateReplays(args);
+  }
+
+  /**
+   * Iterate over every Replay of a Fightcade User, requesting pages as needed
+   *
+   * @param username - Fightcade Username
+   * @param args - `GetUserReplays()` Arguments without `limit`
+   * @param args.pageSize - `default: 15` Amount of Replays requested per page
+   * @param args.maxItems - `default: Infinity` Stop after yielding this many Replays
+   * @param args.since - `default: 0` Stop at the first Replay older than this Millisecond Epoch Timestamp Date
+   *
+   * @example
+   * ```js
+   * // Count the 100 most recent ranked replays belonging to the user 'biggs'.
+   * let count = 0;
+   * for await (const replay of Fightcade.IterateUserReplays('biggs', {ranked: true, maxItems: 100})) count++;
+   * console.log(count);
+   * ```
+   */
+  export function IterateUserReplays(username: string, args: Omit<UserReplaysArgs, 'limit'> & IterateOptions = {}): AsyncGenerator<Fightcade.Replay, void, undefined> {
+    return DefaultClient.IterateUserReplays(username, args);
+  }
+
+  /**
+   * Iterate over every Ranked Player of a Fightcade Game, requesting pages as needed
+   *
+   * @param gameid - Fightcade ROM Name
+   * @param args - `GetRankings()` Arguments without `limit`
+   * @param args.pageSize - `default: 15` Amount of Players requested per page
+   * @param args.maxItems - `default: Infinity` Stop after yielding this many Players
+   *
+   * @example
+   * ```js
+   * // Print the names of the top 100 'umk3' players.
+   * for await (const player of Fightcade.IterateRankings('umk3', {maxItems: 100, pageSize: 50})) {
+   *   console.log(player.name);
+   * }
+   * ```
+   */
+  export function IterateRankings(gameid: string, args: Omit<RankingsArgs, 'limit'> & IterateOptions = {}): AsyncGenerator<Fightcade.Player, void, undefined> {
+    return DefaultClient.IterateRankings(gameid, args);
+  }
+
+  /**
+   * Iterate over every active Fightcade Event, requesting pages as needed
+   *
+   * @param args - `GetEvents()` Arguments without `limit`
+   * @param args.pageSize - `default: 15` Amount of Events requested per page
+   * @param args.maxItems - `default: Infinity` Stop after yielding this many Events
+   * @param args.since - `default: undefined` Stop at the first Event older than this Millisecond Epoch Timestamp Date
+   *
+   * @example
+   * ```js
+   * // Print the names of every active 'garou' event.
+   * for await (const event of Fightcade.IterateEvents({gameid: 'garou'})) {
+   *   console.log(event.name);
+   * }
+   * ```
+   */
+  export function IterateEvents(args: Omit<EventsArgs, 'limit'> & IterateOptions & {since?: number} = {}): AsyncGenerator<Fightcade.Event, void, undefined> {
+    return DefaultClient.IterateEvents(args);
   }
 };
 
 export const Rank = Fightcade.Rank;
+export const use = Fightcade.use;
 export const GetUser = Fightcade.GetUser;
+export const GetUsers = Fightcade.GetUsers;
 export const GetReplay = Fightcade.GetReplay;
 export const GetReplays = Fightcade.GetReplays;
 export const GetUserReplays = Fightcade.GetUserReplays;
@@ -621,3 +1880,22 @@ export const GetVideoURLs = Fightcade.GetVideoURLs;
 export const GetRankings = Fightcade.GetRankings;
 export const GetGame = Fightcade.GetGame;
 export const GetEvents = Fightcade.GetEvents;
+export const GetReplaysPage = Fightcade.GetReplaysPage;
+export const GetUserReplaysPage = Fightcade.GetUserReplaysPage;
+export const GetRankingsPage = Fightcade.GetRankingsPage;
+export const GetEventsPage = Fightcade.GetEventsPage;
+export const IterateReplays = Fightcade.IterateReplays;
+export const IterateUserReplays = Fightcade.IterateUserReplays;
+export const IterateRankings = Fightcade.IterateRankings;
+export const IterateEvents = Fightcade.IterateEvents;
+export const createClient = Fightcade.createClient;
+export const createMemoryCache = Fightcade.createMemoryCache;
+export const createProxyTransport = Fightcade.createProxyTransport;
+export const FightcadeError = Fightcade.FightcadeError;
+export const FightcadeNetworkError = Fightcade.FightcadeNetworkError;
+export const FightcadeHttpError = Fightcade.FightcadeHttpError;
+export const FightcadeApiError = Fightcade.FightcadeApiError;
+export const FightcadeNotFoundError = Fightcade.FightcadeNotFoundError;
+export const FightcadeSchemaError = Fightcade.FightcadeSchemaError;
+export const FightcadeTimeoutError = Fightcade.FightcadeTimeoutError;
+export const FightcadeAbortError = Fightcade.FightcadeAbortError;
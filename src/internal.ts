@@ -0,0 +1,83 @@
+/**
+ * Compare two strings case-insensitively, e.g. Fightcade Usernames, `undefined` matches nothing
+ */
+export const same = (a: string | undefined, b: string) => a !== undefined && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Throw a `RangeError` unless `concurrency` is a positive integer or `Infinity`
+ *
+ * @param concurrency - Maximum Amount of tasks in flight
+ * @param name - `default: 'concurrency'` Option Name used in the error message
+ */
+export function assertConcurrency(concurrency: number, name = 'concurrency'): void {
+  if (!(Number.isInteger(concurrency) || concurrency === Infinity) || concurrency < 1) {
+    throw new RangeError(`${name} must be a positive integer or Infinity, received ${String(concurrency)}`);
+  }
+}
+
+/**
+ * Run `task` for every item with at most `concurrency` tasks in flight
+ *
+ * Items pushed onto `items` while the pool runs are run too. The pool rejects with the first error a task throws,
+ * so tasks catch the errors they report themselves.
+ *
+ * @param items - Items to run `task` for, in order
+ * @param concurrency - Maximum Amount of tasks in flight, a positive integer or `Infinity`
+ * @param task - Called with every item and its index
+ */
+export async function pool<T>(items: T[], concurrency: number, task: (item: T, index: number) => Promise<void>): Promise<void> {
+  assertConcurrency(concurrency);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index]!, index);
+    }
+  };
+  await Promise.all(Array.from({length: Math.max(1, Math.min(concurrency, items.length))}, worker));
+}
+
+/**
+ * Reject as soon as `signal` aborts, even if `promise` ignores the signal, e.g. a custom `fetch` or a Video Provider
+ *
+ * @param promise - Promise to wait for
+ * @param signal - Abort Signal cancelling the wait with its reason
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    if (signal.aborted) return abort();
+    signal.addEventListener('abort', abort, {once: true});
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+/**
+ * Abort Signal that aborts when the caller's signal aborts or `timeoutMs` elapses, and tells which of the two it was
+ *
+ * @param signal - Caller's Abort Signal, its reason is passed on
+ * @param timeoutMs - Timeout in Milliseconds, none if not a positive finite number
+ * @param errors - `timeout` creates the abort reason once `timeoutMs` elapsed, `abort` turns the caller's reason into an error
+ */
+export function createDeadline<E>(signal: AbortSignal | undefined, timeoutMs: number | undefined, errors: {timeout: () => E, abort?: (reason: unknown) => E}) {
+  const {timeout, abort: toError = reason => reason as E} = errors;
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  let timedOut = false;
+  const timer = (timeoutMs !== undefined && timeoutMs > 0 && Number.isFinite(timeoutMs)) ? setTimeout(() => {
+    timedOut = true;
+    controller.abort(timeout());
+  }, timeoutMs) : undefined;
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, {once: true});
+  return {
+    signal: controller.signal,
+    /** Error the deadline stopped with, `undefined` while it has not */
+    error: (): E | undefined => controller.signal.aborted ? (timedOut ? controller.signal.reason : toError(signal?.reason)) : undefined,
+    clear() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    },
+  };
+}
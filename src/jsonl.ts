@@ -0,0 +1,56 @@
+import { appendFile, mkdir, open, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Read every record of a JSON-Lines File
+ *
+ * A crash mid-append can leave a truncated last line behind, lines that are not valid JSON are skipped.
+ *
+ * @param path - JSON-Lines File Path, a missing file has no records
+ */
+export async function readJsonLines<T>(path: string): Promise<T[]> {
+  const text = await readFile(path, 'utf8').catch((e: NodeJS.ErrnoException) => {
+    if (e.code === 'ENOENT') return '';
+    throw e;
+  });
+  const records: T[] = [];
+  for (const line of text.split('\n')) {
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      continue;
+    }
+  }
+  return records;
+}
+
+/**
+ * Append records to a JSON-Lines File
+ *
+ * A truncated last line is terminated first, so it does not swallow the first appended record.
+ *
+ * @param path - JSON-Lines File Path, created with its directory on the first append
+ * @param records - Records to append, one per line
+ */
+export async function appendJsonLines(path: string, records: unknown[]): Promise<void> {
+  if (!records.length) return;
+  await mkdir(dirname(path), {recursive: true});
+  const lines = records.map(record => JSON.stringify(record)).join('\n');
+  await appendFile(path, `${await endsWithNewline(path) ? '' : '\n'}${lines}\n`);
+}
+
+async function endsWithNewline(path: string): Promise<boolean> {
+  const file = await open(path, 'r').catch((e: NodeJS.ErrnoException) => {
+    if (e.code === 'ENOENT') return null;
+    throw e;
+  });
+  if (!file) return true;
+  try {
+    const {size} = await file.stat();
+    if (!size) return true;
+    const {buffer} = await file.read({buffer: new Uint8Array(1), position: size - 1});
+    return buffer[0] === 0x0a;
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,376 @@
+import { Fightcade } from './fightcade-api.ts';
+import { appendJsonLines, readJsonLines } from './jsonl.ts';
+import { toNormalizedCountry } from './normalize.ts';
+
+/**
+ * Entry of a Leaderboard Snapshot
+ *
+ * @param position - 1-based Position on the leaderboard
+ * @param name - Fightcade Username
+ * @param country - Country Name
+ * @param rank - Fightcade Game Rank, `0` if unranked
+ * @param num_matches - Amount of Ranked Games Played, if Fightcade provided it
+ */
+export type LeaderboardEntry = {
+  position: number,
+  name: string,
+  country: string,
+  rank: Fightcade.RankEnum,
+  num_matches?: number,
+};
+
+/**
+ * Full Snapshot of the Rankings of a Fightcade Game
+ *
+ * @param gameid - Fightcade ROM Name
+ * @param date - Millisecond Epoch Timestamp Date the snapshot was taken
+ * @param byElo - Rankings were sorted by Elo
+ * @param recent - Rankings only included recently active players
+ * @param entries - Leaderboard Entries, best position first
+ */
+export type LeaderboardSnapshot = {
+  gameid: string,
+  date: number,
+  byElo: boolean,
+  recent: boolean,
+  entries: LeaderboardEntry[],
+};
+
+/**
+ * Leaderboard Change detected between two Leaderboard Snapshots
+ *
+ * - `moved`: A player changed position, `change` is positive for climbing
+ * - `entered` / `dropped`: A player appeared on / disappeared from the leaderboard
+ * - `promoted` / `demoted`: A player's rank tier changed
+ */
+export type LeaderboardChange =
+  | {type: 'moved', name: string, from: number, to: number, change: number}
+  | {type: 'entered', name: string, position: number, rank: Fightcade.RankEnum}
+  | {type: 'dropped', name: string, position: number, rank: Fightcade.RankEnum}
+  | {type: 'promoted', name: string, from: Fightcade.RankEnum, to: Fightcade.RankEnum}
+  | {type: 'demoted', name: string, from: Fightcade.RankEnum, to: Fightcade.RankEnum};
+
+/**
+ * Difference between two Leaderboard Snapshots of the same Fightcade Game
+ *
+ * @param gameid - Fightcade ROM Name
+ * @param from - Millisecond Epoch Timestamp Date of the older snapshot
+ * @param to - Millisecond Epoch Timestamp Date of the newer snapshot
+ * @param changes - Leaderboard Changes in position order of the newer snapshot, dropouts last
+ */
+export type LeaderboardDiff = {
+  gameid: string,
+  from: number,
+  to: number,
+  changes: LeaderboardChange[],
+};
+
+/**
+ * Leaderboard Snapshot Store
+ *
+ * Holds every snapshot per leaderboard key, oldest first. Keys are the ROM Name plus `':elo'` and `':recent'` for those rankings, e.g. `'umk3:elo:recent'`.
+ */
+export type LeaderboardStore = {
+  load(key: string): LeaderboardSnapshot[] | Promise<LeaderboardSnapshot[]>,
+  append(key: string, snapshot: LeaderboardSnapshot): void | Promise<void>,
+};
+
+/**
+ * `TakeLeaderboardSnapshot()` Arguments
+ *
+ * @param byElo - `default: true` Sort by Elo
+ * @param recent - `default: true` Only include recently active players
+ * @param maxItems - `default: Infinity` Maximum Amount of players to request
+ * @param date - `default: Date.now()` Millisecond Epoch Timestamp Date of the snapshot
+ * @param client - `default: Fightcade` Fightcade Client used to request the rankings
+ */
+export type LeaderboardSnapshotArgs = {
+  byElo?: boolean,
+  recent?: boolean,
+  maxItems?: number,
+  date?: number,
+  client?: Pick<Fightcade.Client, 'IterateRankings'>,
+};
+
+/**
+ * Leaderboard Update Result
+ *
+ * @param snapshots - New Leaderboard Snapshot per Fightcade ROM Name
+ * @param diffs - Difference to the previous snapshot per Fightcade ROM Name, missing for first snapshots
+ * @param errors - Error per Fightcade ROM Name whose rankings could not be requested, the other games are still updated
+ */
+export type LeaderboardUpdate = {
+  snapshots: Record<string, LeaderboardSnapshot>,
+  diffs: Record<string, LeaderboardDiff>,
+  errors: Record<string, unknown>,
+};
+
+/**
+ * Leaderboard
+ *
+ * @param update - Snapshot every game, store the snapshots and diff them against the previous ones
+ * @param history - Every stored Leaderboard Snapshot of a game, oldest first
+ * @param diff - Diff the stored snapshots of a game that were taken nearest to, but not after, two dates, defaults to the two newest snapshots
+ */
+export type Leaderboard = {
+  update(): Promise<LeaderboardUpdate>,
+  history(gameid: string): Promise<LeaderboardSnapshot[]>,
+  diff(gameid: string, from?: number, to?: number): Promise<LeaderboardDiff | undefined>,
+};
+
+/**
+ * `createLeaderboard()` Arguments
+ *
+ * @param games - Fightcade ROM Names whose rankings are snapshotted
+ * @param store - `default: createMemoryLeaderboardStore()` Leaderboard Snapshot Store
+ * @param byElo - `default: true` Sort by Elo
+ * @param recent - `default: true` Only include recently active players
+ * @param maxItems - `default: Infinity` Maximum Amount of players to request per game
+ * @param client - `default: Fightcade` Fightcade Client used to request the rankings
+ */
+export type LeaderboardArgs = {
+  games: string[],
+  store?: LeaderboardStore,
+  byElo?: boolean,
+  recent?: boolean,
+  maxItems?: number,
+  client?: Pick<Fightcade.Client, 'IterateRankings'>,
+};
+
+/**
+ * `RenderLeaderboard()` Options
+ *
+ * @param format - `default: 'markdown'` Markdown table or plain text table
+ * @param diff - Leaderboard Diff whose changes are shown next to the entries
+ * @param limit - `default: Infinity` Maximum Amount of entries to show
+ */
+export type RenderLeaderboardOptions = {
+  format?: 'markdown' | 'text',
+  diff?: LeaderboardDiff,
+  limit?: number,
+};
+
+/**
+ * Get the store key of a leaderboard
+ *
+ * @param snapshot - Leaderboard Snapshot, or the ROM Name and sort options of one
+ */
+export function GetLeaderboardKey(snapshot: Pick<LeaderboardSnapshot, 'gameid' | 'byElo' | 'recent'>): string {
+  return [snapshot.gameid, ...(snapshot.byElo ? ['elo'] : []), ...(snapshot.recent ? ['recent'] : [])].join(':');
+}
+
+/**
+ * Create an in-memory Leaderboard Snapshot Store
+ */
+export function createMemoryLeaderboardStore(): LeaderboardStore {
+  const snapshots = new Map<string, LeaderboardSnapshot[]>();
+  return {
+    load: key => [...snapshots.get(key) ?? []],
+    append(key, snapshot) {
+      snapshots.set(key, [...snapshots.get(key) ?? [], snapshot]);
+    },
+  };
+}
+
+/**
+ * Create a JSON-Lines Leaderboard Snapshot Store
+ *
+ * Every line holds `{"key": string, "snapshot": LeaderboardSnapshot}`.
+ *
+ * @param path - JSON-Lines File Path, created on the first append
+ */
+export function createJsonLinesLeaderboardStore(path: string): LeaderboardStore {
+  return {
+    async load(key) {
+      const records = await readJsonLines<{key?: string, snapshot?: LeaderboardSnapshot}>(path);
+      return records.flatMap(record => (record.key === key && record.snapshot) ? [record.snapshot] : []).sort((a, b) => a.date - b.date);
+    },
+    async append(key, snapshot) {
+      await appendJsonLines(path, [{key, snapshot}]);
+    },
+  };
+}
+
+/**
+ * Take a full Leaderboard Snapshot of a Fightcade Game, paging through every ranked player
+ *
+ * @param gameid - Fightcade ROM Name
+ * @param args - `TakeLeaderboardSnapshot()` Arguments
+ *
+ * @example
+ * ```js
+ * // Print the current 'umk3' leaderboard.
+ * const snapshot = await TakeLeaderboardSnapshot('umk3');
+ * snapshot.entries.forEach(entry => console.log(`${entry.position}. ${entry.name} (${Fightcade.Rank[entry.rank]})`));
+ * ```
+ */
+export async function TakeLeaderboardSnapshot(gameid: string, args: LeaderboardSnapshotArgs = {}): Promise<LeaderboardSnapshot> {
+  const {byElo = true, recent = true, maxItems, date = Date.now(), client = Fightcade} = args;
+  const entries: LeaderboardEntry[] = [];
+  const seen = new Set<string>();
+  for await (const player of client.IterateRankings(gameid, {byElo, recent, pageSize: 100, ...(maxItems !== undefined && {maxItems})})) {
+    // Rankings can shift between pages, a player listed twice keeps their better position.
+    const key = player.name.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const info = player.gameinfo?.[gameid];
+    const num_matches = info?.num_matches;
+    entries.push({
+      position: entries.length + 1,
+      name: player.name,
+      country: toNormalizedCountry(player.country).name,
+      rank: info?.rank ?? player.rank ?? 0,
+      ...(num_matches !== undefined && {num_matches}),
+    });
+  }
+  return {gameid, date, byElo, recent, entries};
+}
+
+/**
+ * Diff two Leaderboard Snapshots of the same Fightcade Game
+ *
+ * Players are matched by case-insensitive Username.
+ *
+ * @param previous - Older Leaderboard Snapshot
+ * @param current - Newer Leaderboard Snapshot
+ *
+ * @example
+ * ```js
+ * // Print who climbed the 'umk3' leaderboard since yesterday's snapshot.
+ * const diff = DiffLeaderboards(yesterday, await TakeLeaderboardSnapshot('umk3'));
+ * diff.changes.filter(change => change.type === 'moved' && change.change > 0).forEach(change => console.log(change.name));
+ * ```
+ */
+export function DiffLeaderboards(previous: LeaderboardSnapshot, current: LeaderboardSnapshot): LeaderboardDiff {
+  const before = new Map(previous.entries.map(entry => [entry.name.toLowerCase(), entry]));
+  const after = new Set(current.entries.map(entry => entry.name.toLowerCase()));
+  const changes: LeaderboardChange[] = [];
+  for (const {name, position, rank} of current.entries) {
+    const old = before.get(name.toLowerCase());
+    if (!old) {
+      changes.push({type: 'entered', name, position, rank});
+      continue;
+    }
+    if (old.position !== position) changes.push({type: 'moved', name, from: old.position, to: position, change: old.position - position});
+    if (rank > old.rank) changes.push({type: 'promoted', name, from: old.rank, to: rank});
+    else if (rank < old.rank) changes.push({type: 'demoted', name, from: old.rank, to: rank});
+  }
+  for (const {name, position, rank} of previous.entries) {
+    if (!after.has(name.toLowerCase())) changes.push({type: 'dropped', name, position, rank});
+  }
+  return {gameid: current.gameid, from: previous.date, to: current.date, changes};
+}
+
+const movement = (name: string, changes: LeaderboardChange[]) => {
+  const own = changes.filter(change => change.type !== 'dropped' && change.name === name);
+  const parts: string[] = [];
+  for (const change of own) {
+    if (change.type === 'entered') parts.push('new');
+    else if (change.type === 'moved') parts.push((change.change > 0) ? `▲${change.change}` : `▼${-change.change}`);
+    else if (change.type === 'promoted' || change.type === 'demoted') parts.push(`${Fightcade.Rank[change.from]} → ${Fightcade.Rank[change.to]}`);
+  }
+  return parts.join(', ') || '–';
+};
+
+const table = (header: string[], rows: string[][], format: 'markdown' | 'text') => {
+  if (format === 'markdown') {
+    const cell = (text: string) => text.replace(/[|\\]/g, char => `\\${char}`);
+    return [header, header.map(() => '---'), ...rows].map(row => `| ${row.map(cell).join(' | ')} |`).join('\n');
+  }
+  const widths = header.map((_, column) => Math.max(...[header, ...rows].map(row => [...row[column] ?? ''].length)));
+  const line = (row: string[]) => row.map((text, column) => text.padEnd(widths[column] ?? 0)).join('  ').trimEnd();
+  return [line(header), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+};
+
+/**
+ * Render a Leaderboard Snapshot as a Markdown or plain text table, ready for posting
+ *
+ * With a diff, every entry shows its movement and rank tier changes, and dropouts are listed below the table.
+ *
+ * @param snapshot - Leaderboard Snapshot
+ * @param options - `RenderLeaderboard()` Options
+ *
+ * @example
+ * ```js
+ * // Post the top 10 of 'umk3' with the changes since the previous snapshot.
+ * const [previous, current] = (await leaderboard.history('umk3')).slice(-2);
+ * const text = RenderLeaderboard(current, {diff: DiffLeaderboards(previous, current), limit: 10});
+ * ```
+ */
+export function RenderLeaderboard(snapshot: LeaderboardSnapshot, options: RenderLeaderboardOptions = {}): string {
+  const {format = 'markdown', diff, limit = Infinity} = options;
+  const header = ['#', 'Player', 'Country', 'Rank', ...(diff ? ['Change'] : [])];
+  const rows = snapshot.entries.slice(0, limit).map(entry => [
+    String(entry.position),
+    entry.name,
+    entry.country,
+    Fightcade.Rank[entry.rank],
+    ...(diff ? [movement(entry.name, diff.changes)] : []),
+  ]);
+  const dropped = diff?.changes.flatMap(change => (change.type === 'dropped') ? [`${change.name} (#${change.position})`] : []) ?? [];
+  return [
+    table(header, rows, format),
+    ...(dropped.length ? ['', `Dropped out: ${dropped.join(', ')}`] : []),
+  ].join('\n');
+}
+
+// The stored snapshot nearest to, but not after, a date.
+const at = (snapshots: LeaderboardSnapshot[], date: number) => snapshots.findLast(snapshot => snapshot.date <= date);
+
+/**
+ * Create a Leaderboard that snapshots the rankings of games into a store and diffs them across time
+ *
+ * @param args - `createLeaderboard()` Arguments
+ *
+ * @example
+ * ```js
+ * // Post the daily 'umk3' leaderboard changes.
+ * const leaderboard = createLeaderboard({games: ['umk3'], store: createJsonLinesLeaderboardStore('./leaderboards.jsonl')});
+ * setInterval(async () => {
+ *   const {snapshots, diffs} = await leaderboard.update();
+ *   const diff = diffs['umk3'];
+ *   if (diff) console.log(RenderLeaderboard(snapshots['umk3'], {diff, limit: 20}));
+ * }, 24 * 60 * 60 * 1000);
+ * ```
+ */
+export function createLeaderboard(args: LeaderboardArgs): Leaderboard {
+  const {games, store = createMemoryLeaderboardStore(), byElo = true, recent = true, maxItems, client = Fightcade} = args;
+  const key = (gameid: string) => GetLeaderboardKey({gameid, byElo, recent});
+
+  // Only the first update of a game loads its history, later updates diff against the snapshot stored before.
+  const latest = new Map<string, LeaderboardSnapshot | undefined>();
+  const last = async (gameid: string) => {
+    if (!latest.has(gameid)) latest.set(gameid, (await store.load(key(gameid))).at(-1));
+    return latest.get(gameid);
+  };
+
+  return {
+    async update() {
+      const result: LeaderboardUpdate = {snapshots: {}, diffs: {}, errors: {}};
+      for (const gameid of games) {
+        let snapshot: LeaderboardSnapshot;
+        try {
+          snapshot = await TakeLeaderboardSnapshot(gameid, {byElo, recent, client, ...(maxItems !== undefined && {maxItems})});
+        } catch (e) {
+          result.errors[gameid] = e;
+          continue;
+        }
+        const previous = await last(gameid);
+        await store.append(key(gameid), snapshot);
+        latest.set(gameid, snapshot);
+        result.snapshots[gameid] = snapshot;
+        if (previous) result.diffs[gameid] = DiffLeaderboards(previous, snapshot);
+      }
+      return result;
+    },
+    async history(gameid) {
+      return store.load(key(gameid));
+    },
+    async diff(gameid, from, to) {
+      const snapshots = await store.load(key(gameid));
+      const current = (to === undefined) ? snapshots.at(-1) : at(snapshots, to);
+      const previous = (from !== undefined) ? at(snapshots, from) : current && snapshots[snapshots.indexOf(current) - 1];
+      return (previous && current) ? DiffLeaderboards(previous, current) : undefined;
+    },
+  };
+}
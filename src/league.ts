@@ -0,0 +1,411 @@
+import { Fightcade } from './fightcade-api.ts';
+import type { RecordStats } from './analytics.ts';
+import { pool } from './internal.ts';
+
+/**
+ * Ranked Set between two League Players
+ *
+ * @param replay - Fightcade Replay of the set
+ * @param players - Roster Names of both players, in Replay order
+ * @param scores - Games won by each player, in Replay order
+ * @param winner - Roster Name of the winner, `null` for draws and cancelled sets
+ * @param cancelled - The ranked set was cancelled, it counts as neither win nor loss
+ */
+export type LeagueSet = {
+  replay: Fightcade.Replay,
+  players: [string, string],
+  scores: [number, number],
+  winner: string | null,
+  cancelled: boolean,
+};
+
+/**
+ * League Set Filter
+ *
+ * @param gameid - Fightcade ROM Name
+ * @param from - `default: 0` Only include sets at or after this Millisecond Epoch Timestamp Date
+ * @param to - `default: Infinity` Only include sets before this Millisecond Epoch Timestamp Date
+ */
+export type LeagueWindow = {
+  gameid: string,
+  from?: number,
+  to?: number,
+};
+
+/**
+ * Standings Entry of a League Player
+ *
+ * @param position - 1-based Position, tied players share a position
+ * @param name - Roster Name
+ * @param points - League Points
+ * @param gamesWon - Games won across decided and drawn sets
+ * @param gamesLost - Games lost across decided and drawn sets
+ * @param gameDifference - `gamesWon - gamesLost`
+ */
+export type Standing = RecordStats & {
+  position: number,
+  name: string,
+  points: number,
+  gamesWon: number,
+  gamesLost: number,
+  gameDifference: number,
+};
+
+/**
+ * Points awarded per set result
+ *
+ * @param win - `default: 3` Points per won set
+ * @param draw - `default: 1` Points per drawn set
+ * @param loss - `default: 0` Points per lost set
+ */
+export type LeaguePoints = {
+  win?: number,
+  draw?: number,
+  loss?: number,
+};
+
+/**
+ * Head-to-Head Record of a Round-Robin Grid Cell, from the row player's point of view
+ *
+ * @param gamesWon - Games won by the row player
+ * @param gamesLost - Games won by the column player
+ */
+export type RoundRobinCell = RecordStats & {
+  gamesWon: number,
+  gamesLost: number,
+};
+
+/**
+ * Round-Robin Grid of every pairing of a roster
+ *
+ * @param players - Roster Names, in row and column order
+ * @param cells - `cells[row][column]`, `null` on the diagonal
+ */
+export type RoundRobinGrid = {
+  players: string[],
+  cells: (RoundRobinCell | null)[][],
+};
+
+/**
+ * Locally computed Rating of a League Player
+ *
+ * @param name - Roster Name
+ * @param rating - Rating
+ * @param rd - Glicko Rating Deviation, `null` for Elo
+ * @param sets - Amount of rated sets
+ */
+export type Rating = {
+  name: string,
+  rating: number,
+  rd: number | null,
+  sets: number,
+};
+
+/**
+ * Rating Options
+ *
+ * Elo rates every decided or drawn set in date order. Glicko-1 rates the sets of every rating period together,
+ * with periods counted from the first set.
+ *
+ * @param system - `default: 'elo'` Rating System
+ * @param initial - `default: 1500` Initial Rating
+ * @param k - `default: 32` Elo K-Factor
+ * @param rd - `default: 350` Initial and maximum Glicko Rating Deviation
+ * @param c - `default: 34.6` Glicko Rating Deviation growth per inactive rating period
+ * @param period - `default: 604800000` Glicko Rating Period in Milliseconds, one week
+ */
+export type RatingOptions = {
+  system?: 'elo' | 'glicko',
+  initial?: number,
+  k?: number,
+  rd?: number,
+  c?: number,
+  period?: number,
+};
+
+/**
+ * `GetLeague()` Arguments
+ *
+ * @param roster - Fightcade Usernames of the League Players, their spelling is used in the results
+ * @param maxReplays - `default: Infinity` Maximum Amount of Replays requested per player
+ * @param concurrency - `default: 5` Maximum Amount of Replay histories requested at once
+ * @param points - Points awarded per set result
+ * @param rating - Rating Options
+ * @param client - `default: Fightcade` Fightcade Client used to request the Replay histories
+ */
+export type LeagueArgs = Fightcade.RequestOptions & LeagueWindow & {
+  roster: string[],
+  maxReplays?: number,
+  concurrency?: number,
+  points?: LeaguePoints,
+  rating?: RatingOptions,
+  client?: Pick<Fightcade.Client, 'IterateUserReplays'>,
+};
+
+/**
+ * League Results
+ *
+ * @param gameid - Fightcade ROM Name
+ * @param from - Millisecond Epoch Timestamp Date the window starts at
+ * @param to - Millisecond Epoch Timestamp Date the window ends before
+ * @param roster - Roster Names
+ * @param sets - League Sets, oldest first
+ * @param standings - Standings, best first
+ * @param grid - Round-Robin Grid in roster order
+ * @param ratings - Ratings, best first
+ * @param errors - Error per player whose Replay history failed, their sets are still found through the other players' histories
+ */
+export type League = {
+  gameid: string,
+  from: number,
+  to: number,
+  roster: string[],
+  sets: LeagueSet[],
+  standings: Standing[],
+  grid: RoundRobinGrid,
+  ratings: Rating[],
+  errors: Record<string, Fightcade.FightcadeError>,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const emptyRecord = (): RecordStats => ({sets: 0, wins: 0, losses: 0, draws: 0, cancelled: 0, winRate: 0});
+
+const addResult = (record: RecordStats, result: 'win' | 'loss' | 'draw' | 'cancelled') => {
+  record.sets++;
+  if (result === 'win') record.wins++;
+  else if (result === 'loss') record.losses++;
+  else if (result === 'draw') record.draws++;
+  else record.cancelled++;
+  record.winRate = (record.wins + record.losses) ? record.wins / (record.wins + record.losses) : 0;
+};
+
+// Set result from the point of view of `name`, one of the set's players.
+const resultOf = (set: LeagueSet, name: string) => set.cancelled ? 'cancelled' : (set.winner === null) ? 'draw' : (set.winner === name) ? 'win' : 'loss';
+
+const gamesOf = (set: LeagueSet, name: string) => (set.players[0] === name) ? set.scores : [set.scores[1], set.scores[0]] as const;
+
+/**
+ * Get the League Sets between roster members from Replays
+ *
+ * Only ranked Replays of the game within the window between two roster members count. Replays seen in several
+ * players' histories are de-duplicated by Challenge ID, and player names are matched case-insensitively.
+ *
+ * @param replays - Fightcade Replays in any order, e.g. the combined histories of every roster member
+ * @param roster - Fightcade Usernames of the League Players
+ * @param window - League Set Filter
+ *
+ * @example
+ * ```js
+ * // Get the 'umk3' sets between 'biggs' and 'foo' from their histories.
+ * const replays = [...await Fightcade.GetUserReplays('biggs', {ranked: true}), ...await Fightcade.GetUserReplays('foo', {ranked: true})];
+ * const sets = ToLeagueSets(replays, ['biggs', 'foo'], {gameid: 'umk3'});
+ * ```
+ */
+export function ToLeagueSets(replays: Fightcade.Replay[], roster: string[], window: LeagueWindow): LeagueSet[] {
+  const {gameid, from = 0, to = Infinity} = window;
+  const names = new Map(roster.map(name => [name.toLowerCase(), name]));
+  const sets = new Map<string, LeagueSet>();
+  for (const replay of replays) {
+    if (sets.has(replay.quarkid) || replay.gameid !== gameid || replay.ranked === null || replay.date < from || replay.date >= to) continue;
+    const [a, b] = replay.players;
+    const players = [names.get(a?.name.toLowerCase() ?? ''), names.get(b?.name.toLowerCase() ?? '')] as const;
+    if (replay.players.length !== 2 || players[0] === undefined || players[1] === undefined || players[0] === players[1]) continue;
+    const scores: [number, number] = [a?.score ?? 0, b?.score ?? 0];
+    const cancelled = replay.ranked === 'cancelled';
+    if (!cancelled && (typeof a?.score !== 'number' || typeof b?.score !== 'number')) continue;
+    const winner = (cancelled || scores[0] === scores[1]) ? null : (scores[0] > scores[1]) ? players[0] : players[1];
+    sets.set(replay.quarkid, {replay, players: [players[0], players[1]], scores, winner, cancelled});
+  }
+  return [...sets.values()].sort((a, b) => a.replay.date - b.replay.date);
+}
+
+/**
+ * Compute the Standings of a League
+ *
+ * Players are ordered by points, game difference, games won and name. Cancelled sets count as played but award no points or games.
+ *
+ * @param sets - League Sets
+ * @param roster - Roster Names, players without sets are included
+ * @param points - Points awarded per set result
+ *
+ * @example
+ * ```js
+ * // Print the standings with 2 points per win.
+ * ComputeStandings(sets, roster, {win: 2}).forEach(standing => console.log(`${standing.position}. ${standing.name} ${standing.points}pts`));
+ * ```
+ */
+export function ComputeStandings(sets: LeagueSet[], roster: string[], points: LeaguePoints = {}): Standing[] {
+  const {win = 3, draw = 1, loss = 0} = points;
+  const standings = new Map(roster.map(name => [name, {...emptyRecord(), position: 0, name, points: 0, gamesWon: 0, gamesLost: 0, gameDifference: 0}]));
+  for (const set of sets) {
+    for (const name of set.players) {
+      const standing = standings.get(name);
+      if (!standing) continue;
+      const result = resultOf(set, name);
+      addResult(standing, result);
+      if (result === 'cancelled') continue;
+      const [won, lost] = gamesOf(set, name);
+      standing.points += (result === 'win') ? win : (result === 'draw') ? draw : loss;
+      standing.gamesWon += won;
+      standing.gamesLost += lost;
+      standing.gameDifference = standing.gamesWon - standing.gamesLost;
+    }
+  }
+  const compare = (a: Standing, b: Standing) => b.points - a.points || b.gameDifference - a.gameDifference || b.gamesWon - a.gamesWon;
+  const sorted = [...standings.values()].sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+  sorted.forEach((standing, i) => {
+    const previous = sorted[i - 1];
+    standing.position = (previous && compare(previous, standing) === 0) ? previous.position : i + 1;
+  });
+  return sorted;
+}
+
+/**
+ * Compute the Round-Robin Grid of a League
+ *
+ * @param sets - League Sets
+ * @param roster - Roster Names, in row and column order
+ *
+ * @example
+ * ```js
+ * // Print the head-to-head record of the first two roster members.
+ * const grid = ComputeRoundRobin(sets, roster);
+ * const cell = grid.cells[0][1];
+ * console.log(`${grid.players[0]} vs ${grid.players[1]}: ${cell.wins}-${cell.losses}`);
+ * ```
+ */
+export function ComputeRoundRobin(sets: LeagueSet[], roster: string[]): RoundRobinGrid {
+  const index = new Map(roster.map((name, i) => [name, i]));
+  const cells = roster.map((_, row) => roster.map((_, column) => (row === column) ? null : {...emptyRecord(), gamesWon: 0, gamesLost: 0}));
+  for (const set of sets) {
+    for (const name of set.players) {
+      const opponent = set.players.find(player => player !== name)!;
+      const cell = cells[index.get(name) ?? -1]?.[index.get(opponent) ?? -1];
+      if (!cell) continue;
+      const result = resultOf(set, name);
+      addResult(cell, result);
+      if (result === 'cancelled') continue;
+      const [won, lost] = gamesOf(set, name);
+      cell.gamesWon += won;
+      cell.gamesLost += lost;
+    }
+  }
+  return {players: [...roster], cells};
+}
+
+const Q = Math.log(10) / 400;
+
+const g = (rd: number) => 1 / Math.sqrt(1 + 3 * Q ** 2 * rd ** 2 / Math.PI ** 2);
+
+const expected = (rating: number, opponent: number, opponentRd = 0) => 1 / (1 + 10 ** (-g(opponentRd) * (rating - opponent) / 400));
+
+/**
+ * Compute Ratings of League Players locally from their League Sets
+ *
+ * Cancelled sets are not rated.
+ *
+ * @param sets - League Sets
+ * @param roster - Roster Names, players without sets keep the initial rating
+ * @param options - Rating Options
+ *
+ * @example
+ * ```js
+ * // Print the Glicko ratings of a league with daily rating periods.
+ * ComputeRatings(sets, roster, {system: 'glicko', period: 24 * 60 * 60 * 1000}).forEach(({name, rating, rd}) => console.log(`${name}: ${Math.round(rating)} ±${Math.round(2 * rd)}`));
+ * ```
+ */
+export function ComputeRatings(sets: LeagueSet[], roster: string[], options: RatingOptions = {}): Rating[] {
+  const {system = 'elo', initial = 1500, k = 32, rd: maxRd = 350, c = 34.6, period = 7 * DAY} = options;
+  const ratings = new Map(roster.map(name => [name, {name, rating: initial, rd: (system === 'glicko') ? maxRd : null, sets: 0}]));
+  const rated = [...sets].filter(set => !set.cancelled && set.players.every(name => ratings.has(name))).sort((a, b) => a.replay.date - b.replay.date);
+  const score = (set: LeagueSet, name: string) => (set.winner === null) ? 0.5 : (set.winner === name) ? 1 : 0;
+
+  if (system === 'elo') {
+    for (const set of rated) {
+      const [a, b] = set.players.map(name => ratings.get(name)!) as [Rating, Rating];
+      const change = k * (score(set, a.name) - expected(a.rating, b.rating));
+      a.rating += change;
+      b.rating -= change;
+      a.sets++;
+      b.sets++;
+    }
+  } else {
+    // Glicko-1 rates every period against the ratings at its start, deviations grow with inactive periods.
+    const periods = new Map<number, LeagueSet[]>();
+    const start = rated[0]?.replay.date ?? 0;
+    for (const set of rated) {
+      const key = Math.floor((set.replay.date - start) / period);
+      periods.set(key, [...periods.get(key) ?? [], set]);
+    }
+    const last = new Map<string, number>();
+    for (const [key, games] of periods) {
+      const before = new Map([...ratings].map(([name, rating]) => [name, {...rating, rd: Math.min(maxRd, Math.sqrt(rating.rd! ** 2 + c ** 2 * (key - (last.get(name) ?? key))))}]));
+      for (const name of new Set(games.flatMap(set => set.players))) {
+        const self = before.get(name)!;
+        let variance = 0;
+        let improvement = 0;
+        for (const set of games.filter(set => set.players.includes(name))) {
+          const opponent = before.get(set.players.find(player => player !== name)!)!;
+          const e = expected(self.rating, opponent.rating, opponent.rd!);
+          variance += g(opponent.rd!) ** 2 * e * (1 - e);
+          improvement += g(opponent.rd!) * (score(set, name) - e);
+        }
+        const precision = 1 / self.rd! ** 2 + Q ** 2 * variance;
+        const rating = ratings.get(name)!;
+        rating.rating = self.rating + Q / precision * improvement;
+        rating.rd = Math.sqrt(1 / precision);
+        rating.sets += games.filter(set => set.players.includes(name)).length;
+        last.set(name, key);
+      }
+    }
+  }
+  return [...ratings.values()].sort((a, b) => b.rating - a.rating || a.name.localeCompare(b.name));
+}
+
+/**
+ * Get the Results of a League from the ranked Replay histories of its roster
+ *
+ * Every roster member's ranked Replays since `from` are requested, then de-duplicated into League Sets between roster members.
+ * A failed history is reported in `errors`, only aborts reject.
+ *
+ * @param args - `GetLeague()` Arguments
+ *
+ * @example
+ * ```js
+ * // Print last week's 'umk3' league standings.
+ * const to = Date.now();
+ * const league = await GetLeague({roster: ['biggs', 'foo', 'bar'], gameid: 'umk3', from: to - 7 * 24 * 60 * 60 * 1000, to});
+ * league.standings.forEach(({position, name, wins, losses, points}) => console.log(`${position}. ${name} ${wins}-${losses} (${points}pts)`));
+ * ```
+ */
+export async function GetLeague(args: LeagueArgs): Promise<League> {
+  const {roster, gameid, from = 0, to = Infinity, maxReplays = Infinity, concurrency = 5, client = Fightcade} = args;
+  const request: Fightcade.RequestOptions = {
+    ...(args.signal !== undefined && {signal: args.signal}),
+    ...(args.timeoutMs !== undefined && {timeoutMs: args.timeoutMs}),
+  };
+  const replays: Fightcade.Replay[] = [];
+  const errors: Record<string, Fightcade.FightcadeError> = {};
+  await pool([...new Set(roster)], concurrency, async (username) => {
+    try {
+      for await (const replay of client.IterateUserReplays(username, {...request, ranked: true, since: from, pageSize: 100, maxItems: maxReplays})) replays.push(replay);
+    } catch (e) {
+      if (!(e instanceof Fightcade.FightcadeError) || e instanceof Fightcade.FightcadeAbortError) throw e;
+      errors[username] = e;
+    }
+  });
+
+  const sets = ToLeagueSets(replays, roster, {gameid, from, to});
+  return {
+    gameid,
+    from,
+    to,
+    roster: [...roster],
+    sets,
+    standings: ComputeStandings(sets, roster, args.points),
+    grid: ComputeRoundRobin(sets, roster),
+    ratings: ComputeRatings(sets, roster, args.rating),
+    errors,
+  };
+}
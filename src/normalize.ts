@@ -0,0 +1,277 @@
+import { Fightcade } from './fightcade-api.ts';
+
+/**
+ * Fightcade Rank Letter
+ */
+export type RankLetter = typeof Fightcade.Rank[number];
+
+/**
+ * Normalized Country
+ *
+ * @param code - `ISO 3166-1 alpha2` Country Code, `null` if Fightcade only provided a name
+ * @param name - Country Name
+ */
+export type NormalizedCountry = {
+  code: string | null,
+  name: string,
+};
+
+/**
+ * Normalized Ranked Set
+ *
+ * - `unranked`: Casual session
+ * - `ft`: Ranked first-to-`n` set
+ * - `cancelled`: Cancelled ranked set
+ */
+export type RankedSet =
+  | {kind: 'unranked'}
+  | {kind: 'ft', n: number}
+  | {kind: 'cancelled'};
+
+/**
+ * Normalized GameInfo Entry
+ *
+ * @param gameid - Fightcade Game ROM Name
+ * @param rank - Rank Letter, `null` if Fightcade provided none
+ * @param matches - Amount of Ranked Games Played, `null` if Fightcade provided none
+ * @param lastMatch - Last Match Played, `null` if Fightcade provided none
+ * @param timePlayed - Time Played in Milliseconds
+ */
+export type NormalizedGameInfo = {
+  gameid: string,
+  rank: RankLetter | null,
+  matches: number | null,
+  lastMatch: Date | null,
+  timePlayed: number,
+};
+
+/**
+ * Normalized Fightcade User
+ *
+ * @param name - Fightcade Username
+ * @param gravatar - Gravatar URL, `null` if none
+ * @param ranked - Ranked Player?
+ * @param createdAt - Account Creation Date
+ * @param lastOnline - Last Logout Date, `null` if unknown
+ * @param games - Normalized GameInfo per Fightcade ROM Name
+ */
+export type NormalizedUser = {
+  name: string,
+  gravatar: string | null,
+  ranked: boolean,
+  createdAt: Date,
+  lastOnline: Date | null,
+  games: Record<string, NormalizedGameInfo>,
+};
+
+/**
+ * Normalized Fightcade Player
+ *
+ * @param name - Fightcade Username
+ * @param country - Normalized Country
+ * @param rank - Rank Letter, `null` if Fightcade provided none
+ * @param score - Match Score, `null` if Fightcade provided none
+ */
+export type NormalizedPlayer = {
+  name: string,
+  country: NormalizedCountry,
+  rank: RankLetter | null,
+  score: number | null,
+};
+
+/**
+ * Normalized Fightcade Replay
+ *
+ * @param quarkid - Fightcade Challenge ID
+ * @param channelname - Fightcade Game Channel Name
+ * @param date - Replay Date
+ * @param duration - Replay Duration in Milliseconds
+ * @param emulator - Emulator Name
+ * @param gameid - Fightcade ROM Name
+ * @param matches - Replay Match Amount, `null` if Fightcade provided none
+ * @param players - Normalized Players
+ * @param ranked - Normalized Ranked Set
+ * @param winner - Player with the higher score, `null` for draws, cancelled sets and replays without scores
+ * @param replayFile - Replay Filename, `null` if Fightcade provided none
+ * @param realtimeViews - Total Amount of Live Spectators
+ * @param savedViews - Amount of Replay Views
+ */
+export type NormalizedReplay = {
+  quarkid: string,
+  channelname: string,
+  date: Date,
+  duration: number,
+  emulator: string,
+  gameid: string,
+  matches: number | null,
+  players: NormalizedPlayer[],
+  ranked: RankedSet,
+  winner: NormalizedPlayer | null,
+  replayFile: string | null,
+  realtimeViews: number,
+  savedViews: number,
+};
+
+/**
+ * Normalized Fightcade Game
+ *
+ * @param year - Release Year, `null` if unknown or not a number
+ * @param genres - Game Genre Tag List, empty if Fightcade provided none
+ * @param training - Training Mode Available
+ */
+export type NormalizedGame = Omit<Fightcade.Game, 'year' | 'genres' | 'training'> & {
+  year: number | null,
+  genres: string[],
+  training: boolean,
+};
+
+/**
+ * Normalized Fightcade Event
+ *
+ * @param date - Event Date
+ * @param stream - Event Livestream URL, `null` if none
+ */
+export type NormalizedEvent = Omit<Fightcade.Event, 'date' | 'stream'> & {
+  date: Date,
+  stream: string | null,
+};
+
+const rankLetter = (rank?: Fightcade.RankEnum | null): RankLetter | null => (rank === undefined || rank === null) ? null : Fightcade.Rank[rank];
+
+// `Intl.DisplayNames` is missing from some runtimes, in which case the code doubles as the name.
+const countryName = (code: string) => {
+  try {
+    return new Intl.DisplayNames(['en'], {type: 'region'}).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Normalize a Fightcade Country, which Fightcade sends either as an object or as a plain string
+ *
+ * @param country - Fightcade Country or Country Name
+ *
+ * @example
+ * ```js
+ * // Print the country names of the players of the replay '1638725293444-1085'.
+ * const replay = await Fightcade.GetReplay('1638725293444-1085');
+ * replay.players.forEach(player => console.log(toNormalizedCountry(player.country).name));
+ * ```
+ */
+export function toNormalizedCountry(country: Fightcade.Country | string): NormalizedCountry {
+  if (typeof country !== 'string') return {code: country.iso_code.toUpperCase(), name: country.full_name};
+  if (/^[a-z]{2}$/i.test(country)) return {code: country.toUpperCase(), name: countryName(country.toUpperCase())};
+  return {code: null, name: country};
+}
+
+/**
+ * Normalize the `ranked` Property of a Fightcade Replay
+ *
+ * @param ranked - Ranked FT# Set, `'cancelled'` or `null`
+ */
+export function toRankedSet(ranked: Fightcade.Replay['ranked']): RankedSet {
+  if (ranked === 'cancelled') return {kind: 'cancelled'};
+  if (ranked === null || ranked === 0) return {kind: 'unranked'};
+  return {kind: 'ft', n: ranked};
+}
+
+/**
+ * Normalize a Fightcade User
+ *
+ * @param user - Fightcade User
+ *
+ * @example
+ * ```js
+ * // Print the rank letters of the user 'biggs'.
+ * const user = toNormalizedUser(await Fightcade.GetUser('biggs'));
+ * Object.values(user.games).forEach(game => console.log(`${game.gameid}: ${game.rank ?? '-'}`));
+ * ```
+ */
+export function toNormalizedUser(user: Fightcade.User): NormalizedUser {
+  const games: Record<string, NormalizedGameInfo> = {};
+  for (const [gameid, info] of Object.entries(user.gameinfo ?? {})) {
+    games[gameid] = {
+      gameid,
+      rank: rankLetter(info.rank),
+      matches: info.num_matches ?? null,
+      lastMatch: (info.last_match === undefined) ? null : new Date(info.last_match),
+      timePlayed: info.time_played,
+    };
+  }
+  return {
+    name: user.name,
+    gravatar: user.gravatar ?? null,
+    ranked: user.ranked,
+    createdAt: new Date(user.date),
+    lastOnline: (user.last_online === undefined) ? null : new Date(user.last_online),
+    games,
+  };
+}
+
+/**
+ * Normalize a Fightcade Player
+ *
+ * @param player - Fightcade Player
+ */
+export function toNormalizedPlayer(player: Fightcade.Player): NormalizedPlayer {
+  return {
+    name: player.name,
+    country: toNormalizedCountry(player.country),
+    rank: rankLetter(player.rank),
+    score: player.score ?? null,
+  };
+}
+
+/**
+ * Normalize a Fightcade Replay
+ *
+ * @param replay - Fightcade Replay
+ *
+ * @example
+ * ```js
+ * // Print the winner of the replay '1638725293444-1085'.
+ * const replay = toNormalizedReplay(await Fightcade.GetReplay('1638725293444-1085'));
+ * console.log(`${replay.date.toISOString()}: ${replay.winner?.name ?? 'No winner'}`);
+ * ```
+ */
+export function toNormalizedReplay(replay: Fightcade.Replay): NormalizedReplay {
+  const players = replay.players.map(toNormalizedPlayer);
+  const ranked = toRankedSet(replay.ranked);
+  const [first, second] = [...players].sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity));
+  const decided = ranked.kind !== 'cancelled' && first?.score != null && second?.score != null && first.score > second.score;
+  return {
+    quarkid: replay.quarkid,
+    channelname: replay.channelname,
+    date: new Date(replay.date),
+    duration: replay.duration * 1000,
+    emulator: replay.emulator,
+    gameid: replay.gameid,
+    matches: replay.num_matches ?? null,
+    players,
+    ranked,
+    winner: decided ? first : null,
+    replayFile: replay.replay_file ?? null,
+    realtimeViews: replay.realtime_views ?? 0,
+    savedViews: replay.saved_views ?? 0,
+  };
+}
+
+/**
+ * Normalize a Fightcade Game
+ *
+ * @param game - Fightcade Game
+ */
+export function toNormalizedGame(game: Fightcade.Game): NormalizedGame {
+  const year = Number.parseInt(game.year ?? '', 10);
+  return {...game, year: Number.isNaN(year) ? null : year, genres: game.genres ?? [], training: game.training ?? false};
+}
+
+/**
+ * Normalize a Fightcade Event
+ *
+ * @param event - Fightcade Event
+ */
+export function toNormalizedEvent(event: Fightcade.Event): NormalizedEvent {
+  return {...event, date: new Date(event.date), stream: event.stream ?? null};
+}
@@ -0,0 +1,244 @@
+import { Fightcade } from './fightcade-api.ts';
+
+/**
+ * Structured Log Entry of a Fightcade API request
+ *
+ * @param type - Fightcade API Request Type
+ * @param body - Request Body
+ * @param url - Fightcade API Endpoint
+ * @param status - HTTP Status Code of the last attempt, `null` if no response was received
+ * @param cache - Cache Status, `null` if the request failed
+ * @param attempts - Amount of HTTP Attempts
+ * @param duration - Milliseconds the request took
+ * @param error - Error the request failed with, if any
+ */
+export type LogEntry = {
+  type: Fightcade.RequestType,
+  body: Fightcade.RequestBody,
+  url: string,
+  status: number | null,
+  cache: Fightcade.CacheStatus | null,
+  attempts: number,
+  duration: number,
+  error?: unknown,
+};
+
+/**
+ * Span Attribute Values, as accepted by OpenTelemetry
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * OpenTelemetry compatible Span
+ *
+ * Spans of `@opentelemetry/api` satisfy this type.
+ */
+export type SpanLike = {
+  setAttribute(key: string, value: string | number | boolean): unknown,
+  addEvent(name: string, attributes?: SpanAttributes): unknown,
+  setStatus(status: {code: number, message?: string}): unknown,
+  recordException(exception: Error | string): unknown,
+  end(): unknown,
+};
+
+/**
+ * OpenTelemetry compatible Tracer
+ *
+ * Tracers of `@opentelemetry/api`, e.g. `trace.getTracer('fightcade')`, satisfy this type.
+ */
+export type TracerLike = {
+  startSpan(name: string, options?: {kind?: number, attributes?: SpanAttributes}): SpanLike,
+};
+
+/**
+ * OpenTelemetry Span Kind used for Fightcade API requests
+ */
+export const SpanKind = {INTERNAL: 0, SERVER: 1, CLIENT: 2, PRODUCER: 3, CONSUMER: 4} as const;
+
+/**
+ * OpenTelemetry Span Status Codes
+ */
+export const SpanStatusCode = {UNSET: 0, OK: 1, ERROR: 2} as const;
+
+/**
+ * Span finished by an In-Memory Span Exporter's Tracer
+ *
+ * @param name - Span Name
+ * @param kind - Span Kind
+ * @param attributes - Span Attributes
+ * @param events - Span Events in order
+ * @param status - Span Status
+ * @param exceptions - Recorded Exceptions
+ * @param startTime - Millisecond Epoch Timestamp Date the span started
+ * @param endTime - Millisecond Epoch Timestamp Date the span ended
+ */
+export type FinishedSpan = {
+  name: string,
+  kind: number,
+  attributes: SpanAttributes,
+  events: {name: string, attributes: SpanAttributes, time: number}[],
+  status: {code: number, message?: string},
+  exceptions: (Error | string)[],
+  startTime: number,
+  endTime: number,
+};
+
+/**
+ * In-Memory Span Exporter, for verifying spans in tests and during development
+ *
+ * @param tracer - Tracer whose ended spans are exported to this exporter
+ * @param getFinishedSpans - Every ended span in end order
+ * @param reset - Forget every ended span
+ */
+export type InMemorySpanExporter = {
+  tracer: TracerLike,
+  getFinishedSpans(): FinishedSpan[],
+  reset(): void,
+};
+
+const describeError = (error: unknown) => (error instanceof Error) ? error : String(error);
+
+/**
+ * Create a Middleware that logs every Fightcade API request
+ *
+ * Entries are logged once a request finished, including failed requests.
+ *
+ * @param log - `default: JSON lines on stdout, failed requests on stderr` Called with every Log Entry
+ *
+ * @example
+ * ```js
+ * // Log every request with pino.
+ * const client = Fightcade.createClient({middleware: [createLoggingMiddleware(entry => logger.info(entry, 'fightcade request'))]});
+ * ```
+ */
+export function createLoggingMiddleware(log?: (entry: LogEntry) => void): Fightcade.Middleware {
+  const write = log ?? (({error, ...entry}: LogEntry) => {
+    if (error === undefined) console.log(JSON.stringify(entry));
+    else console.error(JSON.stringify({...entry, error: (error instanceof Error) ? error.message : String(error)}));
+  });
+  return async (request, next) => {
+    const started = Date.now();
+    const {type, body, url} = request;
+    try {
+      const response = await next(request);
+      write({type, body, url, status: response.status, cache: response.cache, attempts: response.attempts, duration: Date.now() - started});
+      return response;
+    } catch (error) {
+      write({type, body, url, status: request.attempts.at(-1)?.status ?? null, cache: null, attempts: request.attempts.length, duration: Date.now() - started, error});
+      throw error;
+    }
+  };
+}
+
+/**
+ * Create a Middleware that records every Fightcade API request as an OpenTelemetry compatible client span
+ *
+ * Spans are named `'Fightcade <type>'` and carry the HTTP semantic convention attributes plus
+ * `fightcade.request.type`, `fightcade.cache.status` and `fightcade.attempts`, with one `fightcade.attempt` event per HTTP attempt.
+ *
+ * @param tracer - OpenTelemetry Tracer or the tracer of `createInMemorySpanExporter()`
+ *
+ * @example
+ * ```js
+ * // Trace every request with the globally registered OpenTelemetry tracer provider.
+ * import { trace } from '@opentelemetry/api';
+ * const client = Fightcade.createClient({middleware: [createTracingMiddleware(trace.getTracer('fightcade'))]});
+ * ```
+ */
+export function createTracingMiddleware(tracer: TracerLike): Fightcade.Middleware {
+  return async (request, next) => {
+    const span = tracer.startSpan(`Fightcade ${request.type}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {'fightcade.request.type': request.type},
+    });
+    const finish = () => {
+      // The transport decides the method and URL, e.g. `GET` with a `body` query through a proxy. Cache hits send nothing.
+      const sent = request.attempts.findLast(attempt => attempt.method !== undefined);
+      if (sent?.method !== undefined) span.setAttribute('http.request.method', sent.method);
+      if (sent?.url !== undefined) span.setAttribute('url.full', sent.url);
+      request.attempts.forEach((attempt, index) => span.addEvent('fightcade.attempt', {
+        'fightcade.attempt': index + 1,
+        'fightcade.attempt.duration': attempt.duration,
+        ...(attempt.status !== null && {'http.response.status_code': attempt.status}),
+        ...(attempt.error !== undefined && {'error.type': (attempt.error instanceof Error) ? attempt.error.name : typeof attempt.error}),
+      }));
+      const status = request.attempts.at(-1)?.status;
+      if (status !== undefined && status !== null) span.setAttribute('http.response.status_code', status);
+      span.setAttribute('fightcade.attempts', request.attempts.length);
+      if (request.attempts.length > 1) span.setAttribute('http.request.resend_count', request.attempts.length - 1);
+    };
+    try {
+      const response = await next(request);
+      finish();
+      span.setAttribute('fightcade.cache.status', response.cache);
+      span.setStatus({code: SpanStatusCode.OK});
+      return response;
+    } catch (error) {
+      finish();
+      span.setAttribute('error.type', (error instanceof Error) ? error.name : typeof error);
+      span.recordException(describeError(error));
+      span.setStatus({code: SpanStatusCode.ERROR, message: (error instanceof Error) ? error.message : String(error)});
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
+}
+
+/**
+ * Create an In-Memory Span Exporter with a Tracer that exports every ended span to it
+ *
+ * @example
+ * ```js
+ * // Verify that a lookup produced one successful client span.
+ * const exporter = createInMemorySpanExporter();
+ * const client = Fightcade.createClient({middleware: [createTracingMiddleware(exporter.tracer)]});
+ * await client.GetUser('biggs');
+ * console.log(exporter.getFinishedSpans().map(span => [span.name, span.status.code]));
+ * ```
+ */
+export function createInMemorySpanExporter(): InMemorySpanExporter {
+  let finished: FinishedSpan[] = [];
+  return {
+    tracer: {
+      startSpan(name, options = {}) {
+        const span: FinishedSpan = {
+          name,
+          kind: options.kind ?? SpanKind.INTERNAL,
+          attributes: {...options.attributes},
+          events: [],
+          status: {code: SpanStatusCode.UNSET},
+          exceptions: [],
+          startTime: Date.now(),
+          endTime: 0,
+        };
+        let ended = false;
+        // Like OpenTelemetry spans, an ended span ignores further changes.
+        return {
+          setAttribute(key, value) {
+            if (!ended) span.attributes[key] = value;
+          },
+          addEvent(name, attributes = {}) {
+            if (!ended) span.events.push({name, attributes, time: Date.now()});
+          },
+          setStatus(status) {
+            if (!ended) span.status = status;
+          },
+          recordException(exception) {
+            if (!ended) span.exceptions.push(exception);
+          },
+          end() {
+            if (ended) return;
+            ended = true;
+            span.endTime = Date.now();
+            finished.push(span);
+          },
+        };
+      },
+    },
+    getFinishedSpans: () => [...finished],
+    reset() {
+      finished = [];
+    },
+  };
+}
@@ -0,0 +1,218 @@
+import { Fightcade } from './fightcade-api.ts';
+import { ComputeUserStats, GetSetResult, type RecordStats, type SetResult } from './analytics.ts';
+import { pool, same } from './internal.ts';
+import { toNormalizedCountry, toNormalizedUser, type NormalizedCountry, type NormalizedGameInfo } from './normalize.ts';
+
+/**
+ * Game Entry of a Player Profile
+ *
+ * @param hoursPlayed - Time Played in Hours
+ * @param position - 1-based Position in the game's rankings, `null` if the player was not found in them
+ * @param score - Ranking Score, `null` if Fightcade provided none
+ * @param game - Fightcade Game, only resolved for the most played games, `null` otherwise or if the lookup failed
+ */
+export type GameProfile = NormalizedGameInfo & {
+  hoursPlayed: number,
+  position: number | null,
+  score: number | null,
+  game: Fightcade.Game | null,
+};
+
+/**
+ * Frequent Opponent of a Player Profile
+ *
+ * @param name - Opponent's Fightcade Username
+ */
+export type OpponentProfile = RecordStats & {name: string};
+
+/**
+ * Country faced in a Player Profile
+ *
+ * @param sets - Amount of Replays against players from this country
+ */
+export type CountryFaced = NormalizedCountry & {sets: number};
+
+/**
+ * Player Profile
+ *
+ * @param name - Fightcade Username
+ * @param gravatar - Gravatar URL, `null` if none
+ * @param ranked - Ranked Player?
+ * @param createdAt - Account Creation Date
+ * @param accountAge - Milliseconds since the account was created
+ * @param lastOnline - Last Logout Date, `null` if unknown
+ * @param games - Game Entries, most played first
+ * @param record - Record across the requested Replays
+ * @param recentSets - Most recent scored or cancelled sets, newest first
+ * @param opponents - Most frequent opponents across the requested Replays, most sets first
+ * @param countries - Countries of the opponents across the requested Replays, most sets first
+ * @param errors - Error per failed partial lookup, keyed `'rankings:<gameid>'` or `'game:<gameid>'`, the profile is built without it
+ */
+export type PlayerProfile = {
+  name: string,
+  gravatar: string | null,
+  ranked: boolean,
+  createdAt: Date,
+  accountAge: number,
+  lastOnline: Date | null,
+  games: GameProfile[],
+  record: RecordStats,
+  recentSets: SetResult[],
+  opponents: OpponentProfile[],
+  countries: CountryFaced[],
+  errors: Record<string, Fightcade.FightcadeError>,
+};
+
+/**
+ * `GetPlayerProfile()` Options
+ *
+ * @param replays - `default: 100` Maximum Amount of recent Replays to request
+ * @param ranked - `default: false` Only request Ranked Replays
+ * @param mostPlayed - `default: 5` Amount of most played games resolved via `GetGame()`
+ * @param rankingsDepth - `default: 100` Maximum Amount of ranked players searched per game, `0` skips the rankings
+ * @param recentSets - `default: 10` Amount of recent sets
+ * @param opponents - `default: 10` Amount of frequent opponents
+ * @param concurrency - `default: 5` Maximum Amount of rankings lookups, and of game lookups, in flight
+ * @param now - `default: Date.now()` Millisecond Epoch Timestamp Date the account age is measured at
+ * @param signal - Abort Signal cancelling every request, see `Fightcade.RequestOptions`
+ * @param timeoutMs - Timeout in Milliseconds of every request, see `Fightcade.RequestOptions`
+ * @param client - `default: Fightcade` Fightcade Client used to request the profile
+ */
+export type PlayerProfileOptions = Fightcade.RequestOptions & {
+  replays?: number,
+  ranked?: boolean,
+  mostPlayed?: number,
+  rankingsDepth?: number,
+  recentSets?: number,
+  opponents?: number,
+  concurrency?: number,
+  now?: number,
+  client?: Pick<Fightcade.Client, 'GetUser' | 'GetGame' | 'IterateUserReplays' | 'IterateRankings'>,
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Run every task with at most `concurrency` in flight. Only aborts and unexpected errors reject, other Fightcade errors are returned.
+const settle = async <T>(tasks: (() => Promise<T>)[], concurrency: number): Promise<(T | Fightcade.FightcadeError)[]> => {
+  const results: (T | Fightcade.FightcadeError)[] = [];
+  await pool(tasks, concurrency, async (task, index) => {
+    try {
+      results[index] = await task();
+    } catch (e) {
+      if (!(e instanceof Fightcade.FightcadeError) || e instanceof Fightcade.FightcadeAbortError) throw e;
+      results[index] = e;
+    }
+  });
+  return results;
+};
+
+/**
+ * Get the Profile of a Fightcade User, combining their user info, recent Replays and per-game rankings
+ *
+ * The user and their Replays are requested concurrently, then the rankings of every ranked game and the most played games.
+ * Only a failed user or Replay lookup rejects, failed rankings and game lookups are reported in `errors`.
+ *
+ * @param username - Fightcade Username
+ * @param options - `GetPlayerProfile()` Options
+ *
+ * @example
+ * ```js
+ * // Print the most played games and most frequent opponents of the user 'biggs'.
+ * const profile = await GetPlayerProfile('biggs', {timeoutMs: 5000});
+ * profile.games.slice(0, 3).forEach(game => console.log(`${game.game?.name ?? game.gameid}: ${game.hoursPlayed.toFixed(1)}h, rank ${game.rank ?? '-'}`));
+ * profile.opponents.forEach(opponent => console.log(`${opponent.name}: ${opponent.wins}-${opponent.losses}`));
+ * ```
+ */
+export async function GetPlayerProfile(username: string, options: PlayerProfileOptions = {}): Promise<PlayerProfile> {
+  const {replays: maxReplays = 100, mostPlayed = 5, rankingsDepth = 100, concurrency = 5, now = Date.now(), client = Fightcade} = options;
+  // A failed required part cancels the other one instead of leaving it requesting in the background.
+  const controller = new AbortController();
+  const request: Fightcade.RequestOptions = {
+    signal: (options.signal !== undefined) ? AbortSignal.any([options.signal, controller.signal]) : controller.signal,
+    ...(options.timeoutMs !== undefined && {timeoutMs: options.timeoutMs}),
+  };
+  const required = <T>(promise: Promise<T>) => promise.catch((e: unknown) => {
+    controller.abort(e);
+    throw e;
+  });
+
+  const [user, replays] = await Promise.all([
+    required(client.GetUser(username, request)),
+    required((async () => {
+      const replays: Fightcade.Replay[] = [];
+      const args = {...request, pageSize: 100, maxItems: maxReplays, ...(options.ranked !== undefined && {ranked: options.ranked})};
+      for await (const replay of client.IterateUserReplays(username, args)) replays.push(replay);
+      return replays;
+    })()),
+  ]);
+  const normalized = toNormalizedUser(user);
+  const errors: Record<string, Fightcade.FightcadeError> = {};
+
+  const infos = Object.values(normalized.games).sort((a, b) => b.timePlayed - a.timePlayed);
+  const ranked = (rankingsDepth > 0) ? infos.filter(info => info.rank !== null && info.rank !== 'Unranked') : [];
+  const resolved = infos.slice(0, mostPlayed);
+  const [positions, resolvedGames] = await Promise.all([
+    settle(ranked.map(({gameid}) => async () => {
+      let position = 0;
+      for await (const player of client.IterateRankings(gameid, {...request, pageSize: 50, maxItems: rankingsDepth})) {
+        position++;
+        if (same(player.name, user.name)) return {position, score: player.score ?? null};
+      }
+      return null;
+    }), concurrency),
+    settle(resolved.map(({gameid}) => () => client.GetGame(gameid, request)), concurrency),
+  ]);
+
+  const rankings = new Map(ranked.map(({gameid}, i) => [gameid, positions[i]]));
+  const games = new Map(resolved.map(({gameid}, i) => [gameid, resolvedGames[i]]));
+  for (const [gameid, result] of rankings) if (result instanceof Fightcade.FightcadeError) errors[`rankings:${gameid}`] = result;
+  for (const [gameid, result] of games) if (result instanceof Fightcade.FightcadeError) errors[`game:${gameid}`] = result;
+
+  const stats = ComputeUserStats(user.name, replays);
+  const recentSets = replays
+    .flatMap(replay => GetSetResult(user.name, replay) ?? [])
+    .sort((a, b) => b.replay.date - a.replay.date)
+    .slice(0, options.recentSets ?? 10);
+  const opponents = Object.entries(stats.byOpponent)
+    .map(([name, record]) => ({name, ...record}))
+    .sort((a, b) => b.sets - a.sets || a.name.localeCompare(b.name))
+    .slice(0, options.opponents ?? 10);
+
+  // Countries are counted per Replay, including unscored ones.
+  const countries = new Map<string, CountryFaced>();
+  for (const replay of replays) {
+    const self = replay.players.find(player => same(player.name, user.name));
+    const opponent = replay.players.find(player => player !== self);
+    if (!self || !opponent) continue;
+    const country = toNormalizedCountry(opponent.country);
+    const key = country.code ?? country.name;
+    const faced = countries.get(key) ?? {...country, sets: 0};
+    faced.sets++;
+    countries.set(key, faced);
+  }
+
+  return {
+    name: normalized.name,
+    gravatar: normalized.gravatar,
+    ranked: normalized.ranked,
+    createdAt: normalized.createdAt,
+    accountAge: Math.max(0, now - user.date),
+    lastOnline: normalized.lastOnline,
+    games: infos.map(info => {
+      const ranking = rankings.get(info.gameid);
+      const game = games.get(info.gameid);
+      return {
+        ...info,
+        hoursPlayed: info.timePlayed / HOUR,
+        position: (ranking && !(ranking instanceof Error)) ? ranking.position : null,
+        score: (ranking && !(ranking instanceof Error)) ? ranking.score : null,
+        game: (game && !(game instanceof Error)) ? game : null,
+      };
+    }),
+    record: stats.overall,
+    recentSets,
+    opponents,
+    countries: [...countries.values()].sort((a, b) => b.sets - a.sets || a.name.localeCompare(b.name)),
+    errors,
+  };
+}
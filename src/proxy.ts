@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { Fightcade } from './fightcade-api.ts';
+
+/**
+ * Proxy Handler Options
+ *
+ * @param upstream - `default: 'https://www.fightcade.com/api/'` Fightcade API Endpoint requests are forwarded to
+ * @param fetch - `default: globalThis.fetch` Fetch Implementation used to forward requests
+ * @param headers - Extra HTTP Headers sent upstream, e.g. `User-Agent`
+ * @param origins - `default: '*'` Origins allowed to use the proxy, other origins receive HTTP 403
+ * @param maxAge - Seconds a successful response may be cached per Request Type, `0` disables caching
+ * @param staleWhileRevalidate - `default: 60` Seconds an expired response may still be served while it is revalidated
+ * @param maxLimit - `default: 100` Maximum `limit` of paginated requests
+ * @param timeoutMs - `default: 10000` Timeout in Milliseconds of the upstream request
+ */
+export type ProxyHandlerOptions = {
+  upstream?: string,
+  fetch?: Fightcade.Fetch,
+  headers?: Record<string, string>,
+  origins?: '*' | string[],
+  maxAge?: Partial<Record<Fightcade.RequestType, number>>,
+  staleWhileRevalidate?: number,
+  maxLimit?: number,
+  timeoutMs?: number,
+};
+
+/**
+ * Proxy Handler, answering a standard `Request` with a `Response`
+ */
+export type ProxyHandler = (request: Request) => Promise<Response>;
+
+// Matching the default TTLs of the client cache.
+const DefaultMaxAge: Record<Fightcade.RequestType, number> = {
+  getuser: 60,
+  searchquarks: 30,
+  searchrankings: 5 * 60,
+  gameinfo: 24 * 60 * 60,
+  searchevents: 5 * 60,
+};
+
+const MAX_BODY = 4096;
+
+// Stop reading once the body exceeds `MAX_BODY`, so oversized bodies are never buffered. Resolves `null` if it does.
+async function readBody(request: Request): Promise<string | null> {
+  if (Number(request.headers.get('Content-Length') ?? 0) > MAX_BODY) return null;
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for (;;) {
+    const {done, value} = await reader.read();
+    if (done) return text + decoder.decode();
+    size += value.byteLength;
+    if (size > MAX_BODY) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    text += decoder.decode(value, {stream: true});
+  }
+}
+
+/**
+ * Create the Schema of Fightcade API Request Bodies accepted by the proxy
+ *
+ * Only the `req` types used by the client are accepted, with their known arguments.
+ *
+ * @param maxLimit - `default: 100` Maximum `limit` of paginated requests
+ */
+export function createProxyRequestSchema(maxLimit = 100) {
+  const name = z.string().min(1).max(64);
+  const page = {limit: z.number().int().min(1).max(maxLimit).optional(), offset: z.number().int().min(0).optional()};
+  return z.discriminatedUnion('req', [
+    z.object({req: z.literal('getuser'), username: name}).strict(),
+    z.object({req: z.literal('searchquarks'), quarkid: name.optional(), username: name.optional(), gameid: name.optional(), best: z.boolean().optional(), since: z.number().min(0).optional(), ranked: z.boolean().optional(), ...page}).strict(),
+    z.object({req: z.literal('searchrankings'), gameid: name, byElo: z.boolean().optional(), recent: z.boolean().optional(), ...page}).strict(),
+    z.object({req: z.literal('gameinfo'), gameid: name}).strict(),
+    z.object({req: z.literal('searchevents'), gameid: name.optional(), ...page}).strict(),
+  ]);
+}
+
+/**
+ * Create a Proxy Handler that forwards Fightcade API requests, e.g. for browsers using `Fightcade.createProxyTransport()`
+ *
+ * The handler accepts the Fightcade API request body as JSON in a `POST` body or as the `body` query parameter of a `GET` request.
+ * Only the `getuser`, `searchquarks`, `searchrankings`, `gameinfo` and `searchevents` Request Types with valid arguments are forwarded,
+ * invalid requests receive HTTP 400. Successful responses carry `Cache-Control` headers per Request Type, every response carries CORS headers.
+ * Upstream failures are answered with HTTP 502 or 504, upstream HTTP errors are passed through with their `Content-Type` and `Retry-After` headers.
+ * Request bodies over 4 KiB receive HTTP 413 without being read any further.
+ *
+ * @param options - Proxy Handler Options
+ *
+ * @example
+ * ```js
+ * // Serve the proxy locally for a dashboard at http://localhost:5173.
+ * const handler = createProxyHandler({origins: ['http://localhost:5173'], headers: {'User-Agent': 'my-dashboard/1.0'}});
+ * Bun.serve({port: 8787, fetch: handler});
+ * ```
+ */
+export function createProxyHandler(options: ProxyHandlerOptions = {}): ProxyHandler {
+  const {upstream = 'https://www.fightcade.com/api/', headers = {}, origins = '*', staleWhileRevalidate = 60, timeoutMs = 10000} = options;
+  const maxAge = {...DefaultMaxAge, ...options.maxAge};
+  const schema = createProxyRequestSchema(options.maxLimit);
+
+  return async (request) => {
+    const origin = request.headers.get('Origin');
+    const allowed = (origins === '*') ? '*' : (origin !== null && origins.includes(origin)) ? origin : null;
+    const cors: Record<string, string> = {
+      ...(allowed !== null && {'Access-Control-Allow-Origin': allowed}),
+      ...(origins !== '*' && {'Vary': 'Origin'}),
+    };
+    const reply = (body: unknown, status: number, extra: Record<string, string> = {}) => new Response((typeof body === 'string') ? body : JSON.stringify(body), {
+      status,
+      headers: {'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...cors, ...extra},
+    });
+
+    if (origin !== null && allowed === null) return reply({error: 'Origin not allowed'}, 403);
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {status: 204, headers: {
+        ...cors,
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '86400',
+      }});
+    }
+    if (request.method !== 'GET' && request.method !== 'POST') return reply({error: 'Method not allowed'}, 405, {'Allow': 'GET, POST, OPTIONS'});
+
+    const text = (request.method === 'GET') ? new URL(request.url).searchParams.get('body') ?? '' : await readBody(request);
+    if (text === null || new TextEncoder().encode(text).byteLength > MAX_BODY) return reply({error: 'Request body too large'}, 413);
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return reply({error: 'Request body is not valid JSON'}, 400);
+    }
+    const result = schema.safeParse(json);
+    if (!result.success) return reply({error: 'Invalid request', issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)}, 400);
+    const body = result.data;
+
+    let response: Response;
+    let payload: string;
+    try {
+      response = await (options.fetch ?? fetch)(upstream, {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json', ...headers},
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      payload = await response.text();
+    } catch (e) {
+      if (e instanceof Error && e.name === 'TimeoutError') return reply({error: 'Fightcade did not respond in time'}, 504);
+      return reply({error: `Fightcade is unavailable: ${(e instanceof Error) ? e.message : String(e)}`}, 502);
+    }
+    if (!response.ok) {
+      const forwarded = ['Content-Type', 'Retry-After'].flatMap(name => {
+        const value = response.headers.get(name);
+        return (value !== null) ? [[name, value]] : [];
+      });
+      return reply(payload, response.status, {'Content-Type': 'text/plain', ...Object.fromEntries(forwarded)});
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      return reply({error: 'Fightcade responded with invalid JSON'}, 502);
+    }
+    // Failures such as unknown users are answered with `res` other than 'OK' and not cached.
+    const ok = typeof parsed === 'object' && parsed !== null && 'res' in parsed && parsed.res === 'OK';
+    const seconds = maxAge[body.req];
+    return reply(payload, 200, (ok && seconds > 0) ? {'Cache-Control': `public, max-age=${seconds}, stale-while-revalidate=${staleWhileRevalidate}`} : {});
+  };
+}
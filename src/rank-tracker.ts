@@ -0,0 +1,204 @@
+import { Fightcade } from './fightcade-api.ts';
+import { createEmitter, type Emitter } from './emitter.ts';
+
+/**
+ * Per-Game Entry of a Rank Snapshot
+ *
+ * @param rank - Fightcade Game Rank, `0` if unranked
+ * @param num_matches - Amount of Ranked Games Played
+ * @param time_played - Time Played in Milliseconds
+ * @param last_match - Last Match Played Millisecond Epoch Date Timestamp
+ */
+export type GameSnapshot = {
+  rank: Fightcade.RankEnum,
+  num_matches?: number,
+  time_played: number,
+  last_match?: number,
+};
+
+/**
+ * Snapshot of a Fightcade User's GameInfo
+ *
+ * @param username - Fightcade Username
+ * @param date - Millisecond Epoch Timestamp Date the snapshot was taken
+ * @param games - Snapshot per Fightcade ROM Name
+ */
+export type RankSnapshot = {
+  username: string,
+  date: number,
+  games: Record<string, GameSnapshot>,
+};
+
+/**
+ * Rank Change detected between two Rank Snapshots
+ *
+ * - `rankUp` / `rankDown`: The rank of an already ranked game changed
+ * - `newRankedGame`: A game became ranked for the first time
+ * - `becameActive`: A game was played again after being inactive
+ */
+export type RankChange =
+  | {type: 'rankUp', username: string, gameid: string, from: Fightcade.RankEnum, to: Fightcade.RankEnum}
+  | {type: 'rankDown', username: string, gameid: string, from: Fightcade.RankEnum, to: Fightcade.RankEnum}
+  | {type: 'newRankedGame', username: string, gameid: string, rank: Fightcade.RankEnum}
+  | {type: 'becameActive', username: string, gameid: string, last_match: number, inactiveFor: number | null};
+
+/**
+ * Rank Snapshot Store
+ *
+ * Holds the latest snapshot per username. Snapshots only contain JSON values, so any key-value store can back a store.
+ */
+export type SnapshotStore = {
+  get(username: string): RankSnapshot | undefined | Promise<RankSnapshot | undefined>,
+  set(username: string, snapshot: RankSnapshot): void | Promise<void>,
+};
+
+/**
+ * Rank Tracker Events
+ *
+ * Every `RankChange` type plus `error` for users that could not be looked up.
+ */
+export type RankTrackerEvents = {
+  [K in RankChange['type']]: Extract<RankChange, {type: K}>;
+} & {
+  error: {username: string, error: Fightcade.FightcadeError},
+};
+
+/**
+ * Rank Tracker
+ *
+ * @param usernames - Tracked Fightcade Usernames, can be changed between checks
+ * @param check - Snapshot every tracked user, emit and return the changes since their previous snapshot
+ */
+export type RankTracker = Emitter<RankTrackerEvents> & {
+  usernames: Set<string>,
+  check(): Promise<RankChange[]>,
+};
+
+/**
+ * `createRankTracker()` Arguments
+ *
+ * @param usernames - Tracked Fightcade Usernames
+ * @param store - `default: createMemorySnapshotStore()` Rank Snapshot Store
+ * @param inactiveAfter - `default: 30 days` Milliseconds without a match after which a game counts as inactive
+ * @param concurrency - `default: 5` Maximum Amount of user lookups in flight
+ * @param client - `default: Fightcade` Fightcade Client used to look up users
+ */
+export type RankTrackerArgs = {
+  usernames: string[],
+  store?: SnapshotStore,
+  inactiveAfter?: number,
+  concurrency?: number,
+  client?: Pick<Fightcade.Client, 'GetUsers'>,
+};
+
+/**
+ * Create an in-memory Rank Snapshot Store
+ */
+export function createMemorySnapshotStore(): SnapshotStore {
+  const snapshots = new Map<string, RankSnapshot>();
+  return {
+    get: username => snapshots.get(username.toLowerCase()),
+    set: (username, snapshot) => void snapshots.set(username.toLowerCase(), snapshot),
+  };
+}
+
+/**
+ * Take a Rank Snapshot of a Fightcade User
+ *
+ * @param user - Fightcade User
+ * @param date - `default: Date.now()` Millisecond Epoch Timestamp Date of the snapshot
+ *
+ * @example
+ * ```js
+ * // Print the rank letters of the user 'biggs'.
+ * const snapshot = TakeRankSnapshot(await Fightcade.GetUser('biggs'));
+ * Object.entries(snapshot.games).forEach(([gameid, game]) => console.log(`${gameid}: ${Fightcade.Rank[game.rank]}`));
+ * ```
+ */
+export function TakeRankSnapshot(user: Fightcade.User, date = Date.now()): RankSnapshot {
+  const games: Record<string, GameSnapshot> = {};
+  for (const [gameid, {rank, num_matches, time_played, last_match}] of Object.entries(user.gameinfo ?? {})) {
+    games[gameid] = {
+      rank: rank ?? 0,
+      time_played,
+      ...(num_matches !== undefined && {num_matches}),
+      ...(last_match !== undefined && {last_match}),
+    };
+  }
+  return {username: user.name, date, games};
+}
+
+/**
+ * Diff two Rank Snapshots of the same Fightcade User
+ *
+ * @param previous - Older Rank Snapshot
+ * @param current - Newer Rank Snapshot
+ * @param inactiveAfter - `default: 30 days` Milliseconds without a match after which a game counts as inactive
+ *
+ * @example
+ * ```js
+ * // Print the rank changes of the user 'biggs' since yesterday's snapshot.
+ * const current = TakeRankSnapshot(await Fightcade.GetUser('biggs'));
+ * DiffRankSnapshots(yesterday, current).forEach(change => console.log(change.type, change.gameid));
+ * ```
+ */
+export function DiffRankSnapshots(previous: RankSnapshot, current: RankSnapshot, inactiveAfter = 30 * 24 * 60 * 60 * 1000): RankChange[] {
+  const changes: RankChange[] = [];
+  const {username} = current;
+  for (const [gameid, game] of Object.entries(current.games)) {
+    const before = previous.games[gameid];
+    const from = before?.rank ?? 0;
+    if (from === 0 && game.rank > 0) changes.push({type: 'newRankedGame', username, gameid, rank: game.rank});
+    else if (from > 0 && game.rank > from) changes.push({type: 'rankUp', username, gameid, from, to: game.rank});
+    else if (game.rank < from) changes.push({type: 'rankDown', username, gameid, from, to: game.rank});
+
+    // A game is inactive if it was never played or not played for `inactiveAfter` before the previous snapshot.
+    if (game.last_match === undefined || game.last_match <= (before?.last_match ?? -Infinity)) continue;
+    const inactiveFor = (before?.last_match === undefined) ? null : previous.date - before.last_match;
+    if (inactiveFor === null || inactiveFor >= inactiveAfter) changes.push({type: 'becameActive', username, gameid, last_match: game.last_match, inactiveFor});
+  }
+  return changes;
+}
+
+/**
+ * Create a Rank Tracker
+ *
+ * The first check of a user only stores their snapshot, later checks emit the changes since the previous one.
+ *
+ * @param args - `createRankTracker()` Arguments
+ *
+ * @example
+ * ```js
+ * // Announce rank ups of a team every hour.
+ * const tracker = createRankTracker({usernames: ['biggs', 'foo']});
+ * tracker.on('rankUp', ({username, gameid, to}) => console.log(`${username} reached rank ${Fightcade.Rank[to]} in ${gameid}!`));
+ * setInterval(() => tracker.check(), 60 * 60 * 1000);
+ * ```
+ */
+export function createRankTracker(args: RankTrackerArgs): RankTracker {
+  const {store = createMemorySnapshotStore(), inactiveAfter, concurrency = 5, client = Fightcade} = args;
+  const {emitter, emit} = createEmitter<RankTrackerEvents>();
+  const usernames = new Set(args.usernames);
+
+  return {
+    ...emitter,
+    usernames,
+    async check() {
+      const changes: RankChange[] = [];
+      const users = await client.GetUsers([...usernames], {concurrency});
+      for (const [username, user] of users) {
+        if (user instanceof Fightcade.FightcadeError) {
+          emit('error', {username, error: user});
+          continue;
+        }
+        const snapshot = TakeRankSnapshot(user);
+        const previous = await store.get(username);
+        if (previous) changes.push(...DiffRankSnapshots(previous, snapshot, inactiveAfter));
+        await store.set(username, snapshot);
+      }
+      // Emit once every snapshot is stored so listeners observe a consistent store.
+      for (const change of changes) emit(change.type, change as RankTrackerEvents[typeof change.type]);
+      return changes;
+    },
+  };
+}
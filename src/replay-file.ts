@@ -0,0 +1,252 @@
+import { open, rename, stat, mkdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Fightcade } from './fightcade-api.ts';
+import { pool } from './internal.ts';
+
+/**
+ * Thrown when a Replay File exceeds `maxSize` or does not match its `Content-Length`
+ *
+ * @param id - Challenge ID of the replay
+ */
+export class FightcadeReplayFileError extends Fightcade.FightcadeError {
+  readonly id: string;
+
+  constructor(id: string, message: string) {
+    super(`Replay file of '${id}': ${message}`);
+    this.name = 'FightcadeReplayFileError';
+    this.id = id;
+  }
+}
+
+/**
+ * Replay File Options
+ *
+ * Fightcade does not document where replay files are served, so the URL of a replay's file is supplied by `url`
+ * until the endpoint is confirmed against the Fightcade client.
+ *
+ * @param url - Returns the Replay File URL of a replay, e.g. built from its `replay_file`
+ * @param fetch - `default: globalThis.fetch` Fetch Implementation
+ * @param maxSize - `default: 67108864` Maximum Replay File Size in Bytes
+ * @param signal - Aborts the download
+ */
+export type ReplayFileOptions = {
+  url: (replay: Fightcade.Replay) => string,
+  fetch?: Fightcade.Fetch,
+  maxSize?: number,
+  signal?: AbortSignal,
+};
+
+/**
+ * Replay Download Progress Report
+ *
+ * @param quarkid - Fightcade Challenge ID
+ * @param received - Bytes received so far, including resumed bytes
+ * @param total - Replay File Size in Bytes, `null` if Fightcade did not send a `Content-Length`
+ */
+export type DownloadProgress = {
+  quarkid: string,
+  received: number,
+  total: number | null,
+};
+
+/**
+ * `DownloadReplay()` Options
+ *
+ * @param resume - `default: true` Continue a previous partial download of the same destination path
+ * @param onProgress - Called after every received chunk
+ */
+export type DownloadReplayOptions = ReplayFileOptions & {
+  resume?: boolean,
+  onProgress?: (progress: DownloadProgress) => void,
+};
+
+/**
+ * Finished Replay Download
+ *
+ * @param quarkid - Fightcade Challenge ID
+ * @param size - Replay File Size in Bytes
+ * @param resumed - Whether a previous partial download was continued
+ */
+export type DownloadResult = {
+  quarkid: string,
+  size: number,
+  resumed: boolean,
+};
+
+/**
+ * `DownloadReplays()` Options
+ *
+ * @param concurrency - `default: 4` Maximum Amount of downloads in flight
+ * @param filename - `default: replay => \`${replay.quarkid}.fcr\`` Filename of a replay inside the destination directory
+ */
+export type DownloadReplaysOptions = DownloadReplayOptions & {
+  concurrency?: number,
+  filename?: (replay: Fightcade.Replay) => string,
+};
+
+async function request(replay: Fightcade.Replay, options: ReplayFileOptions, offset = 0): Promise<{url: string, body: ReadableStream<Uint8Array>, resumed: boolean, total: number | null, maxSize: number}> {
+  const url = options.url(replay);
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method: 'GET',
+      headers: offset ? {Range: `bytes=${offset}-`} : {},
+      ...(options.signal !== undefined && {signal: options.signal}),
+    });
+  } catch (e) {
+    throw new Fightcade.FightcadeNetworkError(url, e);
+  }
+  if (response.status === 404) throw new Fightcade.FightcadeNotFoundError('replay', replay.quarkid);
+  // The leftover part does not fit the file anymore, so the download starts over.
+  if (response.status === 416 && offset) {
+    await response.body?.cancel();
+    return request(replay, options);
+  }
+  if (!response.ok || !response.body) {
+    throw new Fightcade.FightcadeHttpError(response.status, response.statusText, await response.text().catch(() => ''), response.headers);
+  }
+  // A server that ignores the range answers `200` with the whole file, so the download starts over.
+  const resumed = response.status === 206;
+  const length = Number(response.headers.get('Content-Length') ?? NaN);
+  const total = Number.isNaN(length) ? null : (resumed ? offset : 0) + length;
+  const maxSize = options.maxSize ?? 64 * 1024 * 1024;
+  if (total !== null && total > maxSize) {
+    await response.body.cancel();
+    throw new FightcadeReplayFileError(replay.quarkid, `${total} bytes exceed the maximum of ${maxSize} bytes`);
+  }
+  return {url, body: response.body, resumed, total, maxSize};
+}
+
+// Validate the size while streaming, so oversized or truncated files fail before they are used.
+async function* chunks(replay: Fightcade.Replay, url: string, body: ReadableStream<Uint8Array>, start: number, total: number | null, maxSize: number) {
+  const reader = body.getReader();
+  let received = start;
+  try {
+    for (;;) {
+      let result: Awaited<ReturnType<typeof reader.read>>;
+      try {
+        result = await reader.read();
+      } catch (e) {
+        throw new Fightcade.FightcadeNetworkError(url, e);
+      }
+      if (result.done) break;
+      received += result.value.byteLength;
+      if (received > maxSize) throw new FightcadeReplayFileError(replay.quarkid, `More than the maximum of ${maxSize} bytes received`);
+      yield {chunk: result.value, received};
+    }
+  } finally {
+    reader.releaseLock();
+    await body.cancel().catch(() => undefined);
+  }
+  if (total !== null && received !== total) throw new FightcadeReplayFileError(replay.quarkid, `Received ${received} of ${total} bytes`);
+}
+
+/**
+ * Open a Fightcade Replay File as a Stream
+ *
+ * The stream errors with `FightcadeReplayFileError` if the file exceeds `maxSize` or ends before its `Content-Length`.
+ *
+ * @param replay - Fightcade Replay
+ * @param options - Replay File Options
+ *
+ * @example
+ * ```js
+ * // Upload the replay file of the replay '1638725293444-1085' from a mirror without buffering it.
+ * const url = replay => `https://replays.example.com/${replay.replay_file}`;
+ * const stream = await OpenReplayStream(await Fightcade.GetReplay('1638725293444-1085'), {url});
+ * await fetch('https://example.com/upload', {method: 'PUT', body: stream, duplex: 'half'});
+ * ```
+ */
+export async function OpenReplayStream(replay: Fightcade.Replay, options: ReplayFileOptions): Promise<ReadableStream<Uint8Array>> {
+  const {url, body, total, maxSize} = await request(replay, options);
+  const iterator = chunks(replay, url, body, 0, total, maxSize);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) controller.close();
+        else controller.enqueue(next.value.chunk);
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+    async cancel() {
+      await iterator.return();
+    },
+  });
+}
+
+/**
+ * Download a Fightcade Replay File to Disk
+ *
+ * The file is streamed to `<destination>.part` and renamed once complete. With `resume` a leftover
+ * `.part` file of an interrupted download is continued with an HTTP range request.
+ *
+ * @param replay - Fightcade Replay
+ * @param destination - Destination File Path
+ * @param options - `DownloadReplay()` Options
+ *
+ * @example
+ * ```js
+ * // Download the replay file of the replay '1638725293444-1085' from a mirror.
+ * const replay = await Fightcade.GetReplay('1638725293444-1085');
+ * const url = replay => `https://replays.example.com/${replay.replay_file}`;
+ * const {size} = await DownloadReplay(replay, `./replays/${replay.quarkid}.fcr`, {url});
+ * console.log(`Downloaded ${size} bytes.`);
+ * ```
+ */
+export async function DownloadReplay(replay: Fightcade.Replay, destination: string, options: DownloadReplayOptions): Promise<DownloadResult> {
+  const {resume = true, onProgress} = options;
+  const part = `${destination}.part`;
+  await mkdir(dirname(destination), {recursive: true});
+  const offset = resume ? await stat(part).then(stats => stats.size, () => 0) : 0;
+  const {url, body, resumed, total, maxSize} = await request(replay, options, offset);
+  const start = resumed ? offset : 0;
+  const file = await open(part, resumed ? 'a' : 'w');
+  let size = start;
+  try {
+    for await (const {chunk, received} of chunks(replay, url, body, start, total, maxSize)) {
+      await file.write(chunk);
+      size = received;
+      onProgress?.({quarkid: replay.quarkid, received, total});
+    }
+  } finally {
+    await file.close();
+  }
+  await rename(part, destination);
+  return {quarkid: replay.quarkid, size, resumed};
+}
+
+/**
+ * Download many Fightcade Replay Files into a Directory
+ *
+ * Failed downloads do not stop the others, they are reported as the `FightcadeError` they failed with.
+ *
+ * @param replays - Fightcade Replays
+ * @param directory - Destination Directory
+ * @param options - `DownloadReplays()` Options
+ *
+ * @example
+ * ```js
+ * // Archive the 50 newest replays of the user 'biggs', 4 at a time.
+ * const replays = await Fightcade.GetUserReplays('biggs', {limit: 50});
+ * const url = replay => `https://replays.example.com/${replay.replay_file}`;
+ * const results = await DownloadReplays(replays, './replays', {url, concurrency: 4});
+ * results.forEach((result, quarkid) => { if (result instanceof Error) console.error(quarkid, result.message); });
+ * ```
+ */
+export async function DownloadReplays(replays: Fightcade.Replay[], directory: string, options: DownloadReplaysOptions): Promise<Map<string, DownloadResult | Fightcade.FightcadeError>> {
+  const {concurrency = 4, filename = (replay: Fightcade.Replay) => `${replay.quarkid}.fcr`, ...download} = options;
+  const distinct = [...new Map(replays.map(replay => [replay.quarkid, replay])).values()];
+  const results = new Map<string, DownloadResult | Fightcade.FightcadeError>();
+  await pool(distinct, concurrency, async (replay) => {
+    try {
+      results.set(replay.quarkid, await DownloadReplay(replay, join(directory, filename(replay)), download));
+    } catch (e) {
+      if (!(e instanceof Fightcade.FightcadeError)) throw e;
+      results.set(replay.quarkid, e);
+    }
+  });
+  // Report results in input order rather than completion order.
+  return new Map(distinct.map(replay => [replay.quarkid, results.get(replay.quarkid)!]));
+}
@@ -0,0 +1,321 @@
+import { Fightcade } from './fightcade-api.ts';
+import { same } from './internal.ts';
+
+/**
+ * Mock Fightcade User, a Fightcade User plus the Country shown in rankings
+ */
+export type MockUser = Fightcade.User & {country?: Fightcade.Country | string};
+
+/**
+ * Mock Fightcade Data
+ *
+ * Every list can be edited between requests, e.g. to add a replay while a watcher is polling.
+ *
+ * @param users - Fightcade Users, looked up case-insensitively
+ * @param replays - Fightcade Replays in any order, served newest first
+ * @param games - Fightcade Games
+ * @param events - Fightcade Events in any order, served newest first
+ * @param videos - FightcadeVids URL per Challenge ID
+ */
+export type MockFixtures = {
+  users: MockUser[],
+  replays: Fightcade.Replay[],
+  games: Fightcade.Game[],
+  events: Fightcade.Event[],
+  videos: Record<string, string>,
+};
+
+/**
+ * Mock Endpoint, a Fightcade API `req` or `'vids'` for FightcadeVids
+ */
+export type MockEndpoint = Fightcade.RequestType | 'vids';
+
+/**
+ * Injected Mock Fault
+ *
+ * Exactly one of `network`, `status`, `res` or `body` decides what the faulty request receives.
+ *
+ * @param endpoint - `default: every endpoint` Only fail requests to this endpoint
+ * @param times - `default: 1` Amount of requests to fail, `Infinity` fails until `reset()`
+ * @param network - Reject the request like a failed connection
+ * @param status - Respond with this HTTP Status
+ * @param headers - Response Headers of a `status` fault, e.g. `Retry-After`
+ * @param res - Respond with HTTP 200 and this Fightcade API `res` Value
+ * @param body - Respond with HTTP 200 and this body, JSON encoded unless it is a string
+ */
+export type MockFault = {
+  endpoint?: MockEndpoint,
+  times?: number,
+  network?: boolean,
+  status?: number,
+  headers?: Record<string, string>,
+  res?: string,
+  body?: unknown,
+};
+
+/**
+ * Request received by a Mock
+ *
+ * @param endpoint - Endpoint the request was dispatched to, `null` for malformed requests
+ * @param url - Requested URL
+ * @param body - Parsed JSON Request Body
+ */
+export type MockRequest = {
+  endpoint: MockEndpoint | null,
+  url: string,
+  body: unknown,
+};
+
+/**
+ * `createMockFightcade()` Options
+ *
+ * @param fixtures - `default: createFixtures()` Mock Fightcade Data
+ * @param latency - `default: 0` Milliseconds every request takes, or a range to pick from at random
+ * @param now - `default: () => Date.UTC(2024, 5, 1)` Clock deciding which players count as `recent` in rankings, defaults to the date of the bundled fixtures
+ */
+export type MockOptions = {
+  fixtures?: Partial<MockFixtures>,
+  latency?: number | {min: number, max: number},
+  now?: () => number,
+};
+
+/**
+ * Mock Fightcade
+ *
+ * @param fetch - Fetch Implementation for `createClient({fetch})` or any other `fetch` consumer
+ * @param handle - Request Handler for in-process servers such as `Bun.serve()` or `Deno.serve()`
+ * @param fixtures - Mock Fightcade Data, editable at any time
+ * @param requests - Every received request in order
+ * @param fail - Inject a fault into the next matching requests
+ * @param reset - Clear injected faults and received requests
+ */
+export type MockFightcade = {
+  fetch: Fightcade.Fetch,
+  handle(request: Request): Promise<Response>,
+  fixtures: MockFixtures,
+  requests: MockRequest[],
+  fail(fault: MockFault): void,
+  reset(): void,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Fixture dates count back from a fixed date so every run sees the same data.
+const FIXTURE_DATE = Date.UTC(2024, 5, 1);
+
+/**
+ * Create a fresh copy of the bundled Fixtures
+ *
+ * 3 users, 3 games, 40 replays of `umk3` and `sfiii3nr1` between them, 4 events and 2 FightcadeVids URLs.
+ *
+ * @example
+ * ```js
+ * // Start from the bundled fixtures with an extra user.
+ * const fixtures = createFixtures();
+ * fixtures.users.push({name: 'newcomer', ranked: false, date: Date.now()});
+ * const mock = createMockFightcade({fixtures});
+ * ```
+ */
+export function createFixtures(): MockFixtures {
+  const countries = {
+    biggs: {iso_code: 'us', full_name: 'United States'},
+    foo: {iso_code: 'br', full_name: 'Brazil'},
+    bar: 'Japan',
+  };
+  const users: MockUser[] = [
+    {name: 'biggs', gravatar: 'https://www.gravatar.com/avatar/biggs', ranked: true, last_online: FIXTURE_DATE - DAY, date: FIXTURE_DATE - 900 * DAY, country: countries.biggs, gameinfo: {
+      umk3: {rank: 5, num_matches: 1200, last_match: FIXTURE_DATE - DAY, time_played: 1800 * 60 * 60 * 1000},
+      sfiii3nr1: {rank: 2, num_matches: 80, last_match: FIXTURE_DATE - 60 * DAY, time_played: 40 * 60 * 60 * 1000},
+    }},
+    {name: 'foo', ranked: true, last_online: FIXTURE_DATE - 2 * DAY, date: FIXTURE_DATE - 400 * DAY, country: countries.foo, gameinfo: {
+      umk3: {rank: 4, num_matches: 300, last_match: FIXTURE_DATE - 2 * DAY, time_played: 300 * 60 * 60 * 1000},
+      sfiii3nr1: {rank: 0, time_played: 2 * 60 * 60 * 1000},
+    }},
+    {name: 'bar', ranked: false, date: FIXTURE_DATE - 30 * DAY, country: countries.bar, gameinfo: {
+      sfiii3nr1: {rank: 3, num_matches: 40, last_match: FIXTURE_DATE - 3 * DAY, time_played: 20 * 60 * 60 * 1000},
+    }},
+  ];
+
+  const games: Fightcade.Game[] = [
+    {gameid: 'umk3', name: 'Ultimate Mortal Kombat 3 (rev 1.2)', year: '1995', publisher: 'Midway', emulator: 'fbneo', available_for: 2, system: 'Arcade', ranked: true, training: true, genres: ['fighter']},
+    {gameid: 'sfiii3nr1', name: 'Street Fighter III 3rd Strike: Fight for the Future (Japan 990512, NO CD)', year: '1999', publisher: 'Capcom', emulator: 'fbneo', available_for: 2, system: 'Arcade', ranked: true, training: true, genres: ['fighter']},
+    {gameid: 'umk3r10', romof: 'umk3', name: 'Ultimate Mortal Kombat 3 (rev 1.0)', year: '1995', publisher: 'Midway', emulator: 'fbneo', available_for: 2, system: 'Arcade', ranked: false},
+  ];
+
+  const pairs = [['biggs', 'foo'], ['foo', 'bar'], ['bar', 'biggs']] as const;
+  const replays: Fightcade.Replay[] = Array.from({length: 40}, (_, i) => {
+    const [a, b] = pairs[i % pairs.length]!;
+    const gameid = (i % 4 === 3) ? 'sfiii3nr1' : 'umk3';
+    const ranked = (i % 5 === 4) ? null : (i % 10 === 7) ? 'cancelled' : 3;
+    const date = FIXTURE_DATE - i * 6 * 60 * 60 * 1000;
+    return {
+      quarkid: `${date}-${1000 + i}`,
+      channelname: games.find(game => game.gameid === gameid)!.name,
+      date,
+      duration: 300 + i * 7,
+      emulator: 'fbneo',
+      gameid,
+      num_matches: (ranked === null) ? 4 : 5,
+      players: [
+        {name: a, country: countries[a], rank: users.find(user => user.name === a)?.gameinfo?.[gameid]?.rank ?? 0, score: (ranked === null) ? null : 3 - (i % 2) * 2},
+        {name: b, country: countries[b], rank: users.find(user => user.name === b)?.gameinfo?.[gameid]?.rank ?? 0, score: (ranked === null) ? null : 1 + (i % 2) * 2},
+      ],
+      ranked,
+      replay_file: `${date}-${1000 + i}.fs`,
+      realtime_views: i % 3,
+      saved_views: i,
+    };
+  });
+
+  const events: Fightcade.Event[] = [
+    {name: 'UMK3 Weekly #12', author: 'biggs', date: FIXTURE_DATE + 7 * DAY, gameid: 'umk3', link: 'https://example.com/umk3-weekly-12', region: 'NA', stream: 'https://twitch.tv/example'},
+    {name: 'UMK3 Weekly #11', author: 'biggs', date: FIXTURE_DATE, gameid: 'umk3', link: 'https://example.com/umk3-weekly-11', region: 'NA'},
+    {name: '3rd Strike Online Cup', author: 'bar', date: FIXTURE_DATE + 3 * DAY, gameid: 'sfiii3nr1', link: 'https://example.com/3s-cup', region: 'JP'},
+    {name: 'Garou Night', author: 'foo', date: FIXTURE_DATE + DAY, gameid: 'garou', link: 'https://example.com/garou-night', region: 'SA'},
+  ];
+
+  const videos = Object.fromEntries(replays.slice(0, 2).map(replay => [replay.quarkid, `https://fightcadevids.com/watch/${replay.quarkid}`]));
+
+  return {users, replays, games, events, videos};
+}
+
+const ok = (body: object) => ({res: 'OK', ...body});
+
+const page = <T>(items: T[], body: Record<string, unknown>) => {
+  const offset = Number(body['offset'] ?? 0);
+  const limit = Number(body['limit'] ?? 15);
+  return ok({results: {results: items.slice(offset, offset + limit), count: items.length}});
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, {once: true});
+});
+
+/**
+ * Create a Mock Fightcade that answers the Fightcade API and FightcadeVids offline
+ *
+ * Requests carrying `req` are answered like the Fightcade API, requests carrying `ids` like FightcadeVids,
+ * so the mock works behind any base URL.
+ *
+ * @param options - `createMockFightcade()` Options
+ *
+ * @example
+ * ```js
+ * // Test how a client copes with Fightcade rate limiting.
+ * const mock = createMockFightcade();
+ * mock.fail({endpoint: 'getuser', status: 429, headers: {'Retry-After': '0'}});
+ * const client = Fightcade.createClient({fetch: mock.fetch});
+ * const user = await client.GetUser('biggs');
+ * console.log(mock.requests.length); // 2
+ * ```
+ */
+export function createMockFightcade(options: MockOptions = {}): MockFightcade {
+  const {latency = 0, now = () => FIXTURE_DATE} = options;
+  const fixtures: MockFixtures = {...createFixtures(), ...options.fixtures};
+  const requests: MockRequest[] = [];
+  let faults: (MockFault & {times: number})[] = [];
+
+  const findUser = (username: unknown) => fixtures.users.find(user => same(user.name, String(username)));
+  const toUser = ({country, ...user}: MockUser): Fightcade.User => user;
+
+  const api: Record<Fightcade.RequestType, (body: Record<string, unknown>) => object> = {
+    getuser(body) {
+      const user = findUser(body['username']);
+      return user ? ok({user: toUser(user)}) : {res: 'user not found'};
+    },
+    searchquarks(body) {
+      const {quarkid, username, gameid, ranked, best, since} = body;
+      if (username !== undefined && !findUser(username)) return {res: 'user not found'};
+      const replays = fixtures.replays.filter(replay =>
+        (quarkid === undefined || replay.quarkid === quarkid)
+        && (username === undefined || replay.players.some(player => same(player.name, String(username))))
+        && (gameid === undefined || replay.gameid === gameid)
+        && (!ranked || replay.ranked !== null)
+        && (typeof since !== 'number' || replay.date >= since));
+      replays.sort((a, b) => b.date - a.date);
+      // Without Elo in the fixtures, the players' combined rank stands in for it.
+      const elo = (replay: Fightcade.Replay) => replay.players.reduce((sum, player) => sum + (player.rank ?? 0), 0);
+      if (best) replays.sort((a, b) => elo(b) - elo(a));
+      return page(replays, body);
+    },
+    searchrankings(body) {
+      const gameid = String(body['gameid']);
+      if (!fixtures.games.some(game => game.gameid === gameid)) return {res: 'game not found'};
+      const {byElo = true, recent = true} = body;
+      const players = fixtures.users.flatMap(user => {
+        const info = user.gameinfo?.[gameid];
+        if (!info?.rank || (recent && (info.last_match ?? 0) < now() - 90 * DAY)) return [];
+        return [{name: user.name, country: user.country ?? '', rank: info.rank, gameinfo: {[gameid]: info}}];
+      });
+      const matches = (player: typeof players[number]) => player.gameinfo[gameid]?.num_matches ?? 0;
+      players.sort((a, b) => byElo ? b.rank - a.rank : matches(b) - matches(a));
+      return page(players, body);
+    },
+    gameinfo(body) {
+      const game = fixtures.games.find(game => game.gameid === body['gameid']);
+      return game ? ok({game}) : {res: 'game not found'};
+    },
+    searchevents(body) {
+      const {gameid} = body;
+      return page(fixtures.events.filter(event => gameid === undefined || event.gameid === gameid).sort((a, b) => b.date - a.date), body);
+    },
+  };
+
+  const json = (body: unknown, init: ResponseInit = {}) => new Response((typeof body === 'string') ? body : JSON.stringify(body), {
+    ...init,
+    headers: {'Content-Type': 'application/json', ...init.headers},
+  });
+
+  const respond = async (url: string, text: string, signal?: AbortSignal | null): Promise<Response> => {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+    const fields = (typeof body === 'object' && body !== null) ? body as Record<string, unknown> : {};
+    const endpoint: MockEndpoint | null = (typeof fields['req'] === 'string' && fields['req'] in api) ? fields['req'] as Fightcade.RequestType
+      : Array.isArray(fields['ids']) ? 'vids' : null;
+    requests.push({endpoint, url, body});
+
+    const delay = (typeof latency === 'number') ? latency : latency.min + Math.random() * (latency.max - latency.min);
+    if (delay > 0) await sleep(delay, signal);
+
+    const fault = faults.find(fault => fault.endpoint === undefined || fault.endpoint === endpoint);
+    if (fault) {
+      if (--fault.times <= 0) faults = faults.filter(other => other !== fault);
+      if (fault.network) throw new TypeError('fetch failed');
+      if (fault.status !== undefined) return json(fault.body ?? {error: `HTTP ${fault.status}`}, {status: fault.status, ...(fault.headers !== undefined && {headers: fault.headers})});
+      if (fault.res !== undefined) return json({res: fault.res});
+      return json(fault.body);
+    }
+
+    if (endpoint === null) return json({error: 'Malformed request'}, {status: 400});
+    if (endpoint === 'vids') {
+      return json(Object.fromEntries((fields['ids'] as unknown[]).flatMap(id => (typeof id === 'string' && fixtures.videos[id]) ? [[id, fixtures.videos[id]]] : [])));
+    }
+    return json(api[endpoint](fields));
+  };
+
+  return {
+    fetch: async (input, init) => respond(input, typeof init.body === 'string' ? init.body : '', init.signal),
+    async handle(request) {
+      if (request.method !== 'POST') return json({error: 'Method not allowed'}, {status: 405});
+      return respond(request.url, await request.text(), request.signal);
+    },
+    fixtures,
+    requests,
+    fail(fault) {
+      faults.push({...fault, times: fault.times ?? 1});
+    },
+    reset() {
+      faults = [];
+      requests.length = 0;
+    },
+  };
+}
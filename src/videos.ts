@@ -0,0 +1,353 @@
+import { z } from 'zod';
+import { Fightcade } from './fightcade-api.ts';
+import { abortable, createDeadline } from './internal.ts';
+
+/**
+ * Video URLs found by a Video Provider
+ *
+ * @param quarkid - Object Keys are Fightcade Challenge IDs, Challenge IDs without videos are left out
+ * @param quarkid - Object Values are the Video URLs of the Replay, best first
+ */
+export type VideoIndex = {
+  [quarkid: string]: string[];
+};
+
+/**
+ * Video Source that resolves Fightcade Replays to Video URLs
+ *
+ * @param name - Unique Provider Name, used in Video Links and error reports
+ * @param lookup - Resolve a batch of Challenge IDs, rejecting when the source is unavailable, `signal` aborts on cancellation and timeout
+ *
+ * @example
+ * ```js
+ * // Resolve replays from a database table.
+ * const provider = {
+ *   name: 'database',
+ *   async lookup(quarkids, {signal}) {
+ *     const rows = await db.query('SELECT quarkid, url FROM videos WHERE quarkid = ANY($1)', [quarkids], {signal});
+ *     const index = {};
+ *     rows.forEach(({quarkid, url}) => (index[quarkid] ??= []).push(url));
+ *     return index;
+ *   },
+ * };
+ * ```
+ */
+export type VideoProvider = {
+  name: string,
+  lookup(quarkids: string[], options: {signal: AbortSignal}): Promise<VideoIndex>,
+};
+
+/**
+ * Video Link of a Fightcade Replay
+ *
+ * @param quarkid - Fightcade Challenge ID
+ * @param url - Video URL
+ * @param provider - Name of the Video Provider that found the video
+ */
+export type VideoLink = {
+  quarkid: string,
+  url: string,
+  provider: string,
+};
+
+/**
+ * `GetVideoLinks()` Result
+ *
+ * @param links - Video Links per Challenge ID in provider order, Challenge IDs without videos are left out
+ * @param errors - Error per failed Video Provider Name, the links are found without it
+ */
+export type VideoLinks = {
+  links: {[quarkid: string]: VideoLink[]},
+  errors: Record<string, Fightcade.FightcadeError>,
+};
+
+/**
+ * Video Registry Options
+ *
+ * @param providers - `default: []` Video Providers, asked in order
+ * @param timeoutMs - `default: Infinity` Timeout in Milliseconds of every provider lookup, a timed out provider is skipped
+ * @param onError - Called whenever a Video Provider fails
+ */
+export type VideoRegistryOptions = {
+  providers?: VideoProvider[],
+  timeoutMs?: number,
+  onError?: (provider: string, error: Fightcade.FightcadeError) => void,
+};
+
+/**
+ * Video Registry, resolving Fightcade Replays through every registered Video Provider
+ *
+ * @param register - Add a Video Provider after the registered ones, replacing a provider of the same name
+ * @param unregister - Remove a Video Provider by name, `false` if none was registered
+ * @param providers - Registered Video Providers in order
+ * @param GetVideoURL - Get the first Video URL of a Replay, see `Fightcade.GetVideoURL()`
+ * @param GetVideoURLs - Get the first Video URL of every Replay that has one, see `Fightcade.GetVideoURLs()`
+ * @param GetVideoLinks - Get the Video Links of every provider for every Replay
+ */
+export type VideoRegistry = {
+  register(provider: VideoProvider): VideoRegistry,
+  unregister(name: string): boolean,
+  providers(): VideoProvider[],
+  GetVideoURL(replay: string | Fightcade.Replay, options?: Fightcade.RequestOptions): Promise<string>,
+  GetVideoURLs(replays: string[] | Fightcade.Replay[], options?: Fightcade.RequestOptions): Promise<Fightcade.VideoURLs>,
+  GetVideoLinks(replays: string[] | Fightcade.Replay[], options?: Fightcade.RequestOptions): Promise<VideoLinks>,
+};
+
+/**
+ * HTTP Video Provider Options
+ *
+ * @param url - URL of a JSON Video Index fetched as a whole, or a function building the URL of a batch of Challenge IDs
+ * @param name - `default: 'http'` Provider Name
+ * @param ttl - `default: 300000` Milliseconds a whole Video Index is reused before it is fetched again
+ * @param headers - Additional Request Headers
+ * @param fetch - `default: globalThis.fetch` Fetch Implementation
+ */
+export type HttpVideoProviderOptions = {
+  url: string | ((quarkids: string[]) => string),
+  name?: string,
+  ttl?: number,
+  headers?: Record<string, string>,
+  fetch?: Fightcade.Fetch,
+};
+
+/**
+ * Schema of JSON Video Indexes, Challenge IDs mapped to one Video URL or a list of them
+ */
+export const VideoIndexSchema = z.record(z.union([z.string(), z.string().array()]));
+
+const toQuarkid = (replay: string | Fightcade.Replay) => (typeof replay === 'string') ? replay : replay.quarkid;
+
+const toVideoIndex = (json: unknown): VideoIndex => {
+  const result = VideoIndexSchema.safeParse(json);
+  if (!result.success) throw new Fightcade.FightcadeSchemaError(result.error.issues, json);
+  return Object.fromEntries(Object.entries(result.data).map(([quarkid, urls]) => [quarkid, [urls].flat()]));
+};
+
+const pick = (index: VideoIndex, quarkids: string[]): VideoIndex =>
+  Object.fromEntries(quarkids.flatMap(quarkid => index[quarkid]?.length ? [[quarkid, index[quarkid]]] : []));
+
+// A registry timeout is passed on as is, other abort reasons are reported against the provider.
+const stopped = (reason: unknown, url: string) => (reason instanceof Fightcade.FightcadeTimeoutError) ? reason : new Fightcade.FightcadeAbortError(url, reason);
+
+/**
+ * Create a Video Provider backed by a JSON Video Index served over HTTP
+ *
+ * The index maps Challenge IDs to one Video URL or a list of them, e.g. `{"1638725293444-1085": "https://youtu.be/..."}`.
+ * A `url` string is fetched as a whole and reused for `ttl`, a `url` function is fetched once per lookup batch.
+ *
+ * @param options - HTTP Video Provider Options
+ *
+ * @example
+ * ```js
+ * // Resolve replays from a community index, and from a batched endpoint.
+ * const community = createHttpVideoProvider({url: 'https://example.com/fightcade-videos.json', name: 'community'});
+ * const archive = createHttpVideoProvider({url: quarkids => `https://example.com/api/videos?ids=${quarkids.join(',')}`, name: 'archive'});
+ * ```
+ */
+export function createHttpVideoProvider(options: HttpVideoProviderOptions): VideoProvider {
+  const {url, name = 'http', ttl = 5 * 60 * 1000, headers = {}} = options;
+  let cached: {index: VideoIndex, expires: number} | undefined;
+
+  const get = async (target: string, signal: AbortSignal) => {
+    const fetch = options.fetch ?? globalThis.fetch;
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(target, {headers: {'Accept': 'application/json', ...headers}, signal});
+      text = await response.text();
+    } catch (e) {
+      if (signal.aborted) throw signal.reason;
+      throw new Fightcade.FightcadeNetworkError(target, e);
+    }
+    let json: unknown = text;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      if (response.ok) throw new Fightcade.FightcadeSchemaError([{code: 'custom', path: [], message: 'Invalid JSON'}], text);
+    }
+    if (!response.ok) throw new Fightcade.FightcadeHttpError(response.status, response.statusText, json, response.headers);
+    return toVideoIndex(json);
+  };
+
+  return {
+    name,
+    async lookup(quarkids, {signal}) {
+      if (typeof url === 'function') return pick(await get(url(quarkids), signal), quarkids);
+      if (!cached || Date.now() >= cached.expires) cached = {index: await get(url, signal), expires: Date.now() + ttl};
+      return pick(cached.index, quarkids);
+    },
+  };
+}
+
+/**
+ * Create a Video Provider backed by a local JSON Video Index file or object
+ *
+ * A file is read on every lookup, so it can be edited while the provider is in use. A missing file holds no videos.
+ * Reading a file requires Node.js or Bun, an object works in every runtime.
+ *
+ * @param source - JSON Video Index File Path, or the Video Index itself
+ * @param name - `default: 'local'` Provider Name
+ *
+ * @example
+ * ```js
+ * // Resolve replays from a file maintained next to the bot.
+ * const provider = createLocalVideoProvider('./videos.json');
+ * ```
+ */
+export function createLocalVideoProvider(source: string | Record<string, string | string[]>, name = 'local'): VideoProvider {
+  return {
+    name,
+    async lookup(quarkids) {
+      if (typeof source !== 'string') return pick(toVideoIndex(source), quarkids);
+      // Imported on use, so the other providers still run in browsers and edge runtimes.
+      const {readFile} = await import('node:fs/promises');
+      const text = await readFile(source, 'utf8').catch((e: NodeJS.ErrnoException) => {
+        if (e.code === 'ENOENT') return '{}';
+        throw e;
+      });
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        throw new Fightcade.FightcadeSchemaError([{code: 'custom', path: [], message: 'Invalid JSON'}], text);
+      }
+      return pick(toVideoIndex(json), quarkids);
+    },
+  };
+}
+
+/**
+ * Create a Video Provider backed by the legacy FightcadeVids API
+ *
+ * `https://fightcadevids.com` is currently abandoned, register this provider last so it only answers what other providers could not.
+ *
+ * @param client - `default: Fightcade` Fightcade Client whose FightcadeVids endpoint, retries and rate limits are used
+ *
+ * @example
+ * ```js
+ * // Fall back to FightcadeVids after a local index.
+ * const videos = createVideoRegistry({providers: [createLocalVideoProvider('./videos.json'), createFightcadeVidsProvider()]});
+ * ```
+ */
+export function createFightcadeVidsProvider(client: Pick<Fightcade.Client, 'GetVideoURLs'> = Fightcade): VideoProvider {
+  return {
+    name: 'fightcadevids',
+    async lookup(quarkids, {signal}) {
+      const urls = await client.GetVideoURLs(quarkids, {signal});
+      return Object.fromEntries(Object.entries(urls).map(([quarkid, url]) => [quarkid, [url]]));
+    },
+  };
+}
+
+/**
+ * Create a Video Registry that resolves Fightcade Replays through a list of Video Providers
+ *
+ * Providers are asked in order. `GetVideoURL()` and `GetVideoURLs()` only ask later providers for the Replays earlier ones had no video for,
+ * `GetVideoLinks()` asks every provider. A failed or timed out provider is reported to `onError` and skipped,
+ * only when every provider failed do `GetVideoURL()` and `GetVideoURLs()` reject with the first provider's error.
+ *
+ * @param options - Video Registry Options
+ *
+ * @example
+ * ```js
+ * // Show a video on replay pages when any source has one.
+ * const videos = createVideoRegistry({
+ *   providers: [createLocalVideoProvider('./videos.json'), createHttpVideoProvider({url: 'https://example.com/videos.json'})],
+ *   timeoutMs: 2000,
+ *   onError: (provider, error) => console.warn(`Video provider ${provider} failed`, error),
+ * });
+ * const urls = await videos.GetVideoURLs(await Fightcade.GetUserReplays('biggs'));
+ * ```
+ */
+export function createVideoRegistry(options: VideoRegistryOptions = {}): VideoRegistry {
+  const {timeoutMs = Infinity, onError} = options;
+  let providers: VideoProvider[] = [];
+
+  const ask = async (provider: VideoProvider, quarkids: string[], signal?: AbortSignal): Promise<VideoIndex | Fightcade.FightcadeError> => {
+    const url = `video provider '${provider.name}'`;
+    if (signal?.aborted) throw stopped(signal.reason, url);
+    const deadline = createDeadline(signal, timeoutMs, {timeout: () => new Fightcade.FightcadeTimeoutError(url, timeoutMs), abort: reason => stopped(reason, url)});
+    try {
+      return pick(await abortable(provider.lookup(quarkids, {signal: deadline.signal}), deadline.signal), quarkids);
+    } catch (e) {
+      if (signal?.aborted) throw stopped(signal.reason, url);
+      const error = deadline.error() ?? ((e instanceof Fightcade.FightcadeError) ? e
+        : new Fightcade.FightcadeError(`Video provider '${provider.name}' failed: ${(e instanceof Error) ? e.message : String(e)}`, {cause: e}));
+      onError?.(provider.name, error);
+      return error;
+    } finally {
+      deadline.clear();
+    }
+  };
+
+  // Ask every provider for the Challenge IDs that are still missing, stopping once none are.
+  const resolve = async (replays: string[] | Fightcade.Replay[], signal?: AbortSignal) => {
+    const quarkids = [...new Set(replays.map(toQuarkid))];
+    const urls: Fightcade.VideoURLs = {};
+    const errors: Fightcade.FightcadeError[] = [];
+    let answered = false;
+    for (const provider of providers) {
+      const missing = quarkids.filter(quarkid => urls[quarkid] === undefined);
+      if (!missing.length) break;
+      const result = await ask(provider, missing, signal);
+      if (result instanceof Fightcade.FightcadeError) {
+        errors.push(result);
+        continue;
+      }
+      answered = true;
+      for (const [quarkid, [url]] of Object.entries(result)) if (url !== undefined) urls[quarkid] = url;
+    }
+    if (!answered && errors.length) throw errors[0];
+    return urls;
+  };
+
+  // The request timeout covers every provider lookup of a call.
+  const withDeadline = async <T>(args: Fightcade.RequestOptions, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const deadline = createDeadline(args.signal, args.timeoutMs, {timeout: () => new Fightcade.FightcadeTimeoutError('video registry', args.timeoutMs ?? 0)});
+    try {
+      return await task(deadline.signal);
+    } finally {
+      deadline.clear();
+    }
+  };
+
+  const registry: VideoRegistry = {
+    register(provider) {
+      providers = [...providers.filter(other => other.name !== provider.name), provider];
+      return registry;
+    },
+    unregister(name) {
+      const count = providers.length;
+      providers = providers.filter(provider => provider.name !== name);
+      return providers.length < count;
+    },
+    providers: () => [...providers],
+    async GetVideoURL(replay, args = {}) {
+      const url = (await withDeadline(args, signal => resolve([toQuarkid(replay)], signal)))[toQuarkid(replay)];
+      if (url) return url;
+      throw new Fightcade.FightcadeNotFoundError('video', toQuarkid(replay));
+    },
+    async GetVideoURLs(replays, args = {}) {
+      return withDeadline(args, signal => resolve(replays, signal));
+    },
+    async GetVideoLinks(replays, args = {}) {
+      const quarkids = [...new Set(replays.map(toQuarkid))];
+      const asked = [...providers];
+      const results = await withDeadline(args, signal => Promise.all(asked.map(provider => ask(provider, quarkids, signal))));
+      const result: VideoLinks = {links: {}, errors: {}};
+      results.forEach((index, i) => {
+        const provider = asked[i]!.name;
+        if (index instanceof Fightcade.FightcadeError) {
+          result.errors[provider] = index;
+          return;
+        }
+        for (const [quarkid, urls] of Object.entries(index)) {
+          result.links[quarkid] = [...result.links[quarkid] ?? [], ...urls.map(url => ({quarkid, url, provider}))];
+        }
+      });
+      return result;
+    },
+  };
+  (options.providers ?? []).forEach(provider => registry.register(provider));
+  return registry;
+}
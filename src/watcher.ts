@@ -0,0 +1,228 @@
+import { Fightcade } from './fightcade-api.ts';
+import { createEmitter, type Emitter } from './emitter.ts';
+
+/**
+ * Watcher Feed, i.e. what a poll requested
+ *
+ * - `{kind: 'replays'}`: Newest replays of every game
+ * - `{kind: 'replays', gameid}`: Newest replays of a game
+ * - `{kind: 'replays', username}`: Newest replays of a user
+ * - `{kind: 'events', gameid?}`: Active events, of every game if no `gameid` is set
+ * - `{kind: 'users'}`: `last_online` of every watched user
+ */
+export type WatcherFeed =
+  | {kind: 'replays', gameid?: string, username?: string}
+  | {kind: 'events', gameid?: string}
+  | {kind: 'users'};
+
+/**
+ * Watcher Events
+ *
+ * @param replay - A replay that was not seen before
+ * @param event - An event that was not seen before
+ * @param userOnline - A watched user's `last_online` changed, `previous` is `undefined` if it was not set before
+ * @param error - A poll or a listener failed, the watcher keeps polling
+ */
+export type WatcherEvents = {
+  replay: {replay: Fightcade.Replay, feed: WatcherFeed},
+  event: {event: Fightcade.Event, feed: WatcherFeed},
+  userOnline: {username: string, user: Fightcade.User, last_online: number, previous: number | undefined},
+  error: {feed: WatcherFeed, error: unknown},
+};
+
+/**
+ * Watcher Poll Intervals in Milliseconds
+ *
+ * @param replays - `default: 60000` Replay Feeds Interval
+ * @param events - `default: 300000` Event Feeds Interval
+ * @param users - `default: 60000` User `last_online` Interval
+ */
+export type WatcherIntervals = {
+  replays?: number,
+  events?: number,
+  users?: number,
+};
+
+/**
+ * `createWatcher()` Arguments
+ *
+ * @param users - `default: []` Fightcade Usernames whose replays and online activity are watched
+ * @param games - `default: []` Fightcade ROM Names whose replays are watched
+ * @param allReplays - `default: false` Watch the replays of every game
+ * @param events - `default: false` Watch the events of these Fightcade ROM Names, or of every game if `true`
+ * @param ranked - `default: false` Only watch Ranked Replays
+ * @param since - `default: Date.now()` Only emit Replays after this Millisecond Epoch Timestamp Date
+ * @param lookback - `default: 1800000` Milliseconds every replay poll looks back before the previous poll, since replays are only listed once finished
+ * @param intervals - Poll Intervals
+ * @param client - `default: Fightcade` Fightcade Client used to poll
+ */
+export type WatcherArgs = {
+  users?: string[],
+  games?: string[],
+  allReplays?: boolean,
+  events?: boolean | string[],
+  ranked?: boolean,
+  since?: number,
+  lookback?: number,
+  intervals?: WatcherIntervals,
+  client?: Pick<Fightcade.Client, 'IterateReplays' | 'IterateUserReplays' | 'IterateEvents' | 'GetUsers'>,
+};
+
+/**
+ * Watcher
+ *
+ * @param start - Start polling every feed on its interval
+ * @param stop - Stop polling
+ * @param poll - Poll every feed once, resolves once every emitted notification was delivered
+ */
+export type Watcher = Emitter<WatcherEvents> & {
+  start(): void,
+  stop(): void,
+  poll(): Promise<void>,
+};
+
+// Remember the most recent keys only, so long running watchers do not grow without bound.
+const createSeen = (max = 10000) => {
+  const keys = new Set<string>();
+  return (key: string) => {
+    if (keys.has(key)) return true;
+    keys.add(key);
+    for (const oldest of keys) {
+      if (keys.size <= max) break;
+      keys.delete(oldest);
+    }
+    return false;
+  };
+};
+
+/**
+ * Create a Watcher that polls replays, events and users and emits what is new
+ *
+ * Replays are de-duplicated by `quarkid`, events by name and date. The first poll of an event feed
+ * only records the active events, later polls emit events that were added since.
+ *
+ * @param args - `createWatcher()` Arguments
+ *
+ * @example
+ * ```js
+ * // Announce new ranked replays and logins of a team.
+ * const watcher = createWatcher({users: ['biggs', 'foo'], ranked: true});
+ * watcher.on('replay', ({replay}) => console.log(Fightcade.GetReplayURL(replay)));
+ * watcher.on('userOnline', ({username}) => console.log(`${username} was online.`));
+ * watcher.on('error', ({error}) => console.error(error));
+ * watcher.start();
+ * ```
+ */
+export function createWatcher(args: WatcherArgs): Watcher {
+  const {users = [], games = [], allReplays = false, events = false, lookback = 30 * 60 * 1000, client = Fightcade} = args;
+  const intervals = {replays: 60 * 1000, events: 5 * 60 * 1000, users: 60 * 1000, ...args.intervals};
+  const {emitter, emit} = createEmitter<WatcherEvents>();
+  const startedAt = args.since ?? Date.now();
+  const ranked = (args.ranked !== undefined) ? {ranked: args.ranked} : {};
+
+  const seenReplay = createSeen();
+  const seenEvent = createSeen();
+  const lastOnline = new Map<string, number | undefined>();
+
+  type Task = {feed: WatcherFeed, interval: number, run: () => Promise<void>};
+  const tasks: Task[] = [];
+
+  // A throwing listener is reported as an error of its feed, so it does not hold back the rest of the poll.
+  const notify = <K extends 'replay' | 'event' | 'userOnline'>(feed: WatcherFeed, type: K, event: WatcherEvents[K]) => {
+    try {
+      emit(type, event);
+    } catch (e) {
+      emit('error', {feed, error: e});
+    }
+  };
+
+  const replayTask = (feed: Extract<WatcherFeed, {kind: 'replays'}>, iterate: (since: number) => AsyncIterable<Fightcade.Replay>) => {
+    let since = startedAt;
+    tasks.push({feed, interval: intervals.replays, async run() {
+      const polledAt = Date.now();
+      const replays: Fightcade.Replay[] = [];
+      for await (const replay of iterate(since)) replays.push(replay);
+      // Emit oldest first and only advance the cutoff once the whole feed was read.
+      for (const replay of replays.reverse()) {
+        if (!seenReplay(replay.quarkid)) notify(feed, 'replay', {replay, feed});
+      }
+      since = Math.max(startedAt, polledAt - lookback);
+    }});
+  };
+
+  if (allReplays) replayTask({kind: 'replays'}, since => client.IterateReplays({...ranked, since, pageSize: 50}));
+  for (const gameid of games) replayTask({kind: 'replays', gameid}, since => client.IterateReplays({...ranked, gameid, since, pageSize: 50}));
+  for (const username of users) replayTask({kind: 'replays', username}, since => client.IterateUserReplays(username, {...ranked, since, pageSize: 50}));
+
+  for (const gameid of (events === true) ? [undefined] : (events || [])) {
+    const feed: WatcherFeed = (gameid === undefined) ? {kind: 'events'} : {kind: 'events', gameid};
+    let baseline = true;
+    tasks.push({feed, interval: intervals.events, async run() {
+      for await (const event of client.IterateEvents((gameid === undefined) ? {pageSize: 50} : {gameid, pageSize: 50})) {
+        if (!seenEvent(`${event.name}|${event.date}`) && !baseline) notify(feed, 'event', {event, feed});
+      }
+      baseline = false;
+    }});
+  }
+
+  if (users.length) {
+    const feed: WatcherFeed = {kind: 'users'};
+    tasks.push({feed, interval: intervals.users, async run() {
+      for (const [username, user] of await client.GetUsers(users)) {
+        if (user instanceof Fightcade.FightcadeError) {
+          emit('error', {feed, error: user});
+          continue;
+        }
+        // The first poll only records `last_online`.
+        const known = lastOnline.has(username);
+        const previous = lastOnline.get(username);
+        lastOnline.set(username, user.last_online);
+        if (!known || user.last_online === undefined || user.last_online === previous) continue;
+        notify(feed, 'userOnline', {username, user, last_online: user.last_online, previous});
+      }
+    }});
+  }
+
+  // Polls are chained with `setTimeout` so a slow poll never overlaps the next one.
+  const timers = new Map<Task, ReturnType<typeof setTimeout>>();
+  let running = false;
+  // Every `start()` begins a new generation, so loops of an earlier one stop once their poll finished.
+  let generation = 0;
+
+  // Runs of a task are serialised, so `poll()` waits for a scheduled run of the same task instead of overlapping it.
+  const queues = new Map<Task, Promise<void>>();
+  const run = (task: Task) => {
+    const queued = (queues.get(task) ?? Promise.resolve()).then(async () => {
+      try {
+        await task.run();
+      } catch (e) {
+        emit('error', {feed: task.feed, error: e});
+      }
+    });
+    queues.set(task, queued);
+    return queued;
+  };
+
+  const loop = async (task: Task, current: number) => {
+    await run(task);
+    if (running && generation === current) timers.set(task, setTimeout(() => loop(task, current), task.interval));
+  };
+
+  return {
+    ...emitter,
+    start() {
+      if (running) return;
+      running = true;
+      const current = ++generation;
+      tasks.forEach(task => loop(task, current));
+    },
+    stop() {
+      running = false;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    },
+    async poll() {
+      await Promise.all(tasks.map(run));
+    },
+  };
+}
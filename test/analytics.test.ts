@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { ComputeUserStats, GetSetResult, GetUserStats } from '../src/analytics.ts';
+import { createFixtures, createMockFightcade } from '../src/testing.ts';
+
+const replay = (scores: [number | null, number | null], ranked: Fightcade.Replay['ranked'] = 3, date = 0): Fightcade.Replay => ({
+  quarkid: `${date}-1`,
+  channelname: 'UMK3',
+  date,
+  duration: 60,
+  emulator: 'fbneo',
+  gameid: 'umk3',
+  players: [{name: 'biggs', country: 'US', score: scores[0]}, {name: 'foo', country: 'BR', score: scores[1]}],
+  ranked,
+});
+
+describe('GetSetResult', () => {
+  test('scores the set from the user\'s point of view', () => {
+    expect(GetSetResult('BIGGS', replay([3, 1]))).toMatchObject({opponent: 'foo', result: 'win', score: 3, opponentScore: 1});
+    expect(GetSetResult('foo', replay([3, 1]))).toMatchObject({opponent: 'biggs', result: 'loss'});
+    expect(GetSetResult('foo', replay([2, 2]))?.result).toBe('draw');
+  });
+
+  test('cancelled sets, unscored sets and other users', () => {
+    expect(GetSetResult('biggs', replay([1, 0], 'cancelled'))?.result).toBe('cancelled');
+    expect(GetSetResult('biggs', replay([null, null], null))).toBeNull();
+    expect(GetSetResult('bar', replay([3, 1]))).toBeNull();
+  });
+});
+
+describe('ComputeUserStats', () => {
+  test('records, scores and streaks', () => {
+    const replays = [replay([3, 0], 3, 1), replay([3, 1], 3, 2), replay([0, 3], 3, 3), replay([3, 2], 3, 4), replay([3, 2], 3, 5), replay([3, 2], 3, 6), replay([1, 1], 'cancelled', 7), replay([null, null], null, 8)];
+    const stats = ComputeUserStats('biggs', replays.reverse());
+    expect(stats.overall).toEqual({sets: 7, wins: 5, losses: 1, draws: 0, cancelled: 1, winRate: 5 / 6});
+    expect(stats.scores).toEqual({'3-0': 1, '3-1': 1, '0-3': 1, '3-2': 3});
+    expect(stats.streaks.longestWin).toEqual({result: 'win', length: 3, from: 4, to: 6});
+    expect(stats.streaks.longestLoss?.length).toBe(1);
+    expect(stats.streaks.current?.length).toBe(3);
+    expect(stats.skipped).toBe(1);
+  });
+
+  test('opponent and gameid filters', () => {
+    const fixtures = createFixtures();
+    const stats = ComputeUserStats('biggs', fixtures.replays, {opponent: 'FOO', gameid: 'umk3'});
+    expect(Object.keys(stats.byOpponent)).toEqual(['foo']);
+    expect(Object.keys(stats.byGame)).toEqual(['umk3']);
+  });
+});
+
+describe('GetUserStats', () => {
+  test('pulls the replay history through the client', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch});
+    const stats = await GetUserStats('biggs', {client});
+    expect(stats.overall.sets + stats.skipped).toBe(27);
+    expect(mock.requests).toHaveLength(1);
+    expect(await GetUserStats('biggs', {client, maxReplays: 5}).then(stats => stats.overall.sets + stats.skipped)).toBe(5);
+  });
+});
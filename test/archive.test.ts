@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createArchive, createJsonLinesArchiveStore, createMemoryArchiveStore } from '../src/archive.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const setup = () => {
+  const mock = createMockFightcade();
+  return {mock, client: Fightcade.createClient({fetch: mock.fetch, retry: false})};
+};
+
+describe('createArchive', () => {
+  test('syncs every feed and de-duplicates replays', async () => {
+    const {client} = setup();
+    const archive = createArchive({users: ['biggs', 'foo'], games: ['umk3'], client});
+    const result = await archive.sync();
+    expect(result.feeds).toEqual({'user:biggs': 27, 'user:foo': 13, 'game:umk3': 0});
+    expect(result.added).toBe(40);
+    expect(await archive.size()).toBe(40);
+  });
+
+  test('resumes every feed from its newest archived replay', async () => {
+    const {mock, client} = setup();
+    const store = createMemoryArchiveStore();
+    await createArchive({store, games: ['umk3'], client}).sync();
+    const newest = mock.fixtures.replays[0]!;
+    mock.fixtures.replays.push({...newest, quarkid: 'new-1', date: newest.date + 1});
+    mock.reset();
+
+    const archive = createArchive({store, games: ['umk3'], lookback: 0, client});
+    expect((await archive.sync()).added).toBe(1);
+    expect(mock.requests).toHaveLength(1);
+    expect(mock.requests[0]?.body).toMatchObject({gameid: 'umk3', since: newest.date});
+    expect((await archive.get('new-1'))?.date).toBe(newest.date + 1);
+  });
+
+  test('failed feeds keep their cursor', async () => {
+    const {mock, client} = setup();
+    const store = createMemoryArchiveStore();
+    mock.fail({endpoint: 'searchquarks', status: 500});
+    const result = await createArchive({store, users: ['biggs'], client}).sync();
+    expect(result.errors['user:biggs']).toBeInstanceOf(Fightcade.FightcadeHttpError);
+    expect((await store.load()).cursors).toEqual({});
+  });
+
+  test('failed stores can be retried', async () => {
+    const {client} = setup();
+    const memory = createMemoryArchiveStore();
+    let failLoad = true;
+    let failAppend = true;
+    const store = {
+      load: () => failLoad ? Promise.reject(new Error('load')) : memory.load(),
+      append: (data: Parameters<typeof memory.append>[0]) => failAppend ? Promise.reject(new Error('append')) : memory.append(data),
+    };
+    const archive = createArchive({store, users: ['biggs'], client});
+    await expect(archive.size()).rejects.toThrow('load');
+    failLoad = false;
+    expect(await archive.size()).toBe(0);
+
+    await expect(archive.sync()).rejects.toThrow('append');
+    expect(await archive.size()).toBe(0);
+    failAppend = false;
+    expect((await archive.sync()).added).toBe(27);
+    expect(await archive.size()).toBe(27);
+  });
+
+  test('query filters', async () => {
+    const {client} = setup();
+    const archive = createArchive({users: ['biggs', 'foo'], client});
+    await archive.sync();
+    const all = await archive.query();
+    expect(all).toHaveLength(40);
+    expect(all[0]!.date).toBeGreaterThan(all[1]!.date);
+
+    const sets = await archive.query({player: 'BIGGS', opponent: 'foo', order: 'oldest'});
+    expect(sets).toHaveLength(14);
+    expect(sets[0]!.date).toBeLessThan(sets[1]!.date);
+    expect(await archive.query({player: 'biggs', opponent: 'biggs'})).toEqual([]);
+
+    expect((await archive.query({ranked: 'cancelled'})).every(replay => replay.ranked === 'cancelled')).toBe(true);
+    expect((await archive.query({ranked: false})).every(replay => replay.ranked === null)).toBe(true);
+    expect((await archive.query({gameid: 'sfiii3nr1', emulator: 'fbneo'})).length).toBe(10);
+    expect(await archive.query({player: 'foo', country: 'jp'})).toEqual([]);
+    expect((await archive.query({player: 'foo', country: 'br'})).length).toBe(27);
+    expect((await archive.query({country: 'Japan'})).length).toBe(26);
+
+    const [newest, second] = all;
+    expect(await archive.query({from: second!.date, to: newest!.date})).toEqual([second!]);
+    expect(await archive.query({offset: 1, limit: 1})).toEqual([second!]);
+  });
+});
+
+describe('createJsonLinesArchiveStore', () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fightcade-'));
+  });
+  afterEach(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  test('persists replays and cursors across archives', async () => {
+    const {client} = setup();
+    const path = join(directory, 'archive', 'replays.jsonl');
+    await createArchive({store: createJsonLinesArchiveStore(path), users: ['bar'], client}).sync();
+    // A crash can leave a truncated line behind.
+    await appendFile(path, '{"replay": {"quarkid"');
+
+    const {replays, cursors} = await createJsonLinesArchiveStore(path).load();
+    expect(replays).toHaveLength(26);
+    expect(Object.keys(cursors)).toEqual(['user:bar']);
+    expect(await createArchive({store: createJsonLinesArchiveStore(path)}).size()).toBe(26);
+
+    await createArchive({store: createJsonLinesArchiveStore(path), users: ['foo'], client}).sync();
+    const reloaded = await createJsonLinesArchiveStore(path).load();
+    expect(new Set(reloaded.replays.map(replay => replay.quarkid)).size).toBe(40);
+    expect(Object.keys(reloaded.cursors)).toEqual(['user:bar', 'user:foo']);
+  });
+
+  test('a missing file is an empty archive', async () => {
+    expect(await createJsonLinesArchiveStore(join(directory, 'missing.jsonl')).load()).toEqual({replays: [], cursors: {}});
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test';
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+// Collect every source file an entry point imports, and the packages they import.
+const graph = async (entry: string) => {
+  const files = new Map<string, string>();
+  const packages = new Set<string>();
+  const visit = async (path: string) => {
+    if (files.has(path)) return;
+    const source = await readFile(path, 'utf8');
+    files.set(path, source);
+    for (const [, specifier] of source.matchAll(/^(?:import|export)\s[^;]*?from\s+'([^']+)'/gm)) {
+      if (specifier!.startsWith('.')) await visit(join(dirname(path), specifier!));
+      else packages.add(specifier!);
+    }
+  };
+  await visit(join(import.meta.dir, '..', 'src', entry));
+  return {files, packages};
+};
+
+describe('browser and edge runtimes', () => {
+  for (const entry of ['fightcade-api.ts', 'proxy.ts', 'videos.ts']) {
+    test(`${entry} only depends on zod and web APIs`, async () => {
+      const {files, packages} = await graph(entry);
+      expect([...packages]).toEqual(['zod']);
+      for (const [path, source] of files) {
+        const code = source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '');
+        expect({path, globals: code.match(/\b(?:process|Buffer|require|__dirname|setImmediate)\b/g) ?? []}).toEqual({path, globals: []});
+      }
+    });
+  }
+});
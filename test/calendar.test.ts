@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { ExportEvents, FilterEvents, GetEventID, ToAtom, ToICalendar, ToRSS } from '../src/calendar.ts';
+import { createFixtures, createMockFightcade } from '../src/testing.ts';
+
+const {events} = createFixtures();
+const now = Date.UTC(2024, 4, 1);
+
+describe('FilterEvents', () => {
+  test('filters by game, region and date', () => {
+    expect(FilterEvents(events, {gameid: 'umk3'}).map(event => event.name)).toEqual(['UMK3 Weekly #12', 'UMK3 Weekly #11']);
+    expect(FilterEvents(events, {gameid: ['garou', 'sfiii3nr1'], region: ['jp', 'sa']})).toHaveLength(2);
+    expect(FilterEvents(events, {from: events[3]!.date, to: events[2]!.date}).map(event => event.name)).toEqual(['Garou Night']);
+  });
+});
+
+describe('ToICalendar', () => {
+  const ics = ToICalendar(events, {now, timeZone: 'America/New_York'});
+
+  test('writes one VEVENT per event with stable UIDs and UTC dates', () => {
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+    expect(ics).toContain(`UID:${GetEventID(events[0]!)}@fightcade.com`);
+    expect(ics).toContain('DTSTART:20240608T000000Z');
+    expect(ics).toContain('DTEND:20240608T020000Z');
+    expect(ics).toContain('X-WR-TIMEZONE:America/New_York');
+    expect(ToICalendar(events, {now})).toContain(`UID:${GetEventID(events[0]!)}@fightcade.com`);
+  });
+
+  test('escapes text, folds long lines and uses the stream as location', () => {
+    const [event] = events;
+    const long = ToICalendar([{...event!, name: `Semi; colon, comma \\ ${'é'.repeat(60)}`}], {now});
+    const lines = long.split('\r\n');
+    expect(lines.every(line => new TextEncoder().encode(line).byteLength <= 75)).toBe(true);
+    const unfolded = long.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`SUMMARY:Semi\\; colon\\, comma \\\\ ${'é'.repeat(60)}`);
+    expect(unfolded).toContain(`LOCATION:${event!.stream}`);
+    expect(unfolded).toContain('Saturday\\, June 8\\, 2024 at 12:00 AM UTC');
+  });
+
+  test('describes dates in the requested timezone', () => {
+    expect(ics.replace(/\r\n /g, '')).toContain('Friday\\, June 7\\, 2024 at 8:00 PM (America/New_York)');
+  });
+});
+
+describe('feeds', () => {
+  test('ToRSS', () => {
+    const event = {...events[0]!, name: 'Tom & Jerry <Cup>'};
+    const rss = ToRSS([event], {now, self: 'https://example.com/events.rss'});
+    expect(rss).toContain('<title>Tom &#38; Jerry &#60;Cup&#62;</title>');
+    expect(rss).toContain('<pubDate>Sat, 08 Jun 2024 00:00:00 GMT</pubDate>');
+    expect(rss).toContain('<atom:link href="https://example.com/events.rss" rel="self" type="application/rss+xml"/>');
+    expect(rss).toContain(`<guid isPermaLink="false">${GetEventID(event)}@fightcade.com</guid>`);
+  });
+
+  test('ToAtom', () => {
+    const atom = ToAtom(events, {now});
+    expect(atom.match(/<entry>/g)).toHaveLength(4);
+    expect(atom).toContain(`<id>urn:fightcade.com:event:${GetEventID(events[0]!)}</id>`);
+    expect(atom.match(/<updated>2024-05-01T00:00:00.000Z<\/updated>/g)).toHaveLength(5);
+    expect(atom).toContain('Starts: ');
+    expect(atom).toContain(`<link rel="related" href="${events[0]!.stream}"/>`);
+  });
+});
+
+describe('ExportEvents', () => {
+  test('requests, filters and renders events', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch});
+    const ics = await ExportEvents({format: 'ics', gameid: 'umk3', region: 'na', options: {now}, client});
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(mock.requests[0]?.body).toMatchObject({req: 'searchevents', gameid: 'umk3'});
+    const atom = await ExportEvents({format: 'atom', gameid: ['garou', 'sfiii3nr1'], client});
+    expect(atom.match(/<entry>/g)).toHaveLength(2);
+    expect(await ExportEvents({format: 'rss', client})).toContain('<rss');
+  });
+});
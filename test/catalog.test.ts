@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createGameCatalog, MatchGameName } from '../src/catalog.ts';
+import { createFixtures, createMockFightcade } from '../src/testing.ts';
+
+const setup = () => {
+  const mock = createMockFightcade();
+  return {mock, catalog: createGameCatalog({client: Fightcade.createClient({fetch: mock.fetch, retry: false})})};
+};
+
+describe('createGameCatalog', () => {
+  test('seeds games from replays and users once', async () => {
+    const {mock, catalog} = setup();
+    const {replays, users} = mock.fixtures;
+    const results = await catalog.seed([...replays, ...users]);
+    expect([...results.keys()].sort()).toEqual(['sfiii3nr1', 'umk3']);
+    await catalog.seed(replays);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  test('loads romof parents and keeps failed lookups apart', async () => {
+    const {mock, catalog} = setup();
+    const results = await catalog.load(['umk3r10', 'nogame']);
+    expect(results.get('nogame')).toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+    expect(results.get('umk3')).toMatchObject({gameid: 'umk3'});
+    expect(catalog.parent('umk3r10')?.gameid).toBe('umk3');
+    expect(catalog.clones('umk3').map(game => game.gameid)).toEqual(['umk3r10']);
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  test('tree nests clones under their parents', () => {
+    const {games} = createFixtures();
+    const catalog = createGameCatalog({games: [...games, {...games[2]!, gameid: 'umk3r11', romof: 'umk3r10'}, {...games[2]!, gameid: 'orphan', romof: 'missing'}]});
+    const tree = catalog.tree();
+    expect(tree.map(node => node.game.gameid)).toEqual(['umk3', 'sfiii3nr1', 'orphan']);
+    expect(tree[0]?.clones[0]?.game.gameid).toBe('umk3r10');
+    expect(tree[0]?.clones[0]?.clones[0]?.game.gameid).toBe('umk3r11');
+  });
+
+  test('search filters', () => {
+    const catalog = createGameCatalog({games: createFixtures().games});
+    const ids = (query: Parameters<typeof catalog.search>[0]) => catalog.search(query).map(game => game.gameid);
+    expect(ids({ranked: false})).toEqual(['umk3r10']);
+    expect(ids({publisher: 'capcom'})).toEqual(['sfiii3nr1']);
+    expect(ids({genre: 'FIGHTER', training: true})).toEqual(['sfiii3nr1', 'umk3']);
+    expect(ids({year: {from: 1996}})).toEqual(['sfiii3nr1']);
+    expect(ids({year: 1995, system: 'arcade', emulator: 'fbneo'})).toEqual(['umk3r10', 'umk3']);
+    expect(ids({limit: 1})).toHaveLength(1);
+  });
+
+  test('fuzzy name search ranks the best match first', () => {
+    const catalog = createGameCatalog({games: createFixtures().games});
+    expect(catalog.search({name: '3rd strike'}).map(game => game.gameid)).toEqual(['sfiii3nr1']);
+    expect(catalog.search({name: 'mortal kombat rev 1.2'}).map(game => game.gameid)[0]).toBe('umk3');
+    expect(catalog.search({name: 'ultimate mortal', ranked: true}).map(game => game.gameid)).toEqual(['umk3']);
+    expect(catalog.search({name: 'zzz'})).toEqual([]);
+  });
+});
+
+describe('MatchGameName', () => {
+  const [umk3] = createFixtures().games;
+  test('scores exact, phrase, word, ROM name and subsequence matches in that order', () => {
+    const scores = ['umk3', 'ultimate mortal', 'ult mor', 'umk', 'umkrev'].map(query => MatchGameName(umk3!, query));
+    expect(scores[0]).toBe(1);
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+    expect(scores.every(score => score > 0)).toBe(true);
+    expect(MatchGameName(umk3!, 'garou')).toBe(0);
+  });
+});
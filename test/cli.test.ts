@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { main } from '../src/cli.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const run = async (argv: string[], setup?: (mock: ReturnType<typeof createMockFightcade>) => void) => {
+  const mock = createMockFightcade();
+  setup?.(mock);
+  const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+  let stdout = '';
+  let stderr = '';
+  const code = await main(argv, {client, stdout: text => stdout += text, stderr: text => stderr += text});
+  return {code, stdout, stderr, mock};
+};
+
+describe('arguments', () => {
+  test('options are passed to the Fightcade API', async () => {
+    const {code, mock} = await run(['rankings', 'umk3', '--limit=5', '--offset', '2', '--no-recent', '--by-elo=false']);
+    expect(code).toBe(0);
+    expect(mock.requests[0]!.body).toEqual({req: 'searchrankings', gameid: 'umk3', limit: 5, offset: 2, recent: false, byElo: false});
+
+    const {mock: replays} = await run(['replays', '--gameid', 'umk3', '--ranked', '--best', '--since', '2024-01-01']);
+    expect(replays.requests[0]!.body).toEqual({req: 'searchquarks', gameid: 'umk3', ranked: true, best: true, since: Date.UTC(2024, 0, 1)});
+  });
+
+  test('invalid usage exits with 2 without requests', async () => {
+    for (const argv of [[], ['nope'], ['user'], ['replays', '--limit', '-1'], ['replays', '--since', 'someday'], ['replays', '--format', 'xml'], ['replays', '--verbose'], ['replays', '--gameid'], ['replays', '--ranked=yes']]) {
+      const {code, stderr, mock} = await run(argv);
+      expect(code).toBe(2);
+      expect(stderr).toContain('Usage: fightcade');
+      expect(mock.requests).toHaveLength(0);
+    }
+  });
+
+  test('--help prints the usage', async () => {
+    const {code, stdout} = await run(['--help']);
+    expect(code).toBe(0);
+    expect(stdout).toStartWith('Usage: fightcade');
+  });
+});
+
+describe('exit codes', () => {
+  test('missing resources exit with 3 and failures with 4', async () => {
+    expect((await run(['user', 'nobody'])).code).toBe(3);
+    expect((await run(['game', 'umk3'], mock => mock.fail({status: 500}))).code).toBe(4);
+    expect((await run(['game', 'umk3'], mock => mock.fail({network: true}))).code).toBe(4);
+    expect((await run(['game', 'umk3'], mock => mock.fail({body: {res: 'OK', game: {gameid: 1}}}))).code).toBe(4);
+  });
+});
+
+describe('formats', () => {
+  test('table', async () => {
+    const {stdout} = await run(['user', 'biggs']);
+    const lines = stdout.trimEnd().split('\n');
+    expect(lines[0]).toStartWith('biggs (created ');
+    expect(lines[2]).toMatch(/^gameid\s+rank\s+matches\s+hours\s+last_match$/);
+    expect(lines[3]).toMatch(/^-+\s+-+/);
+    expect(lines[4]).toMatch(/^umk3\s+A\s+1200\s+1800\.0\s/);
+  });
+
+  test('json', async () => {
+    const {stdout} = await run(['game', 'umk3', '--format', 'json']);
+    expect(JSON.parse(stdout)).toMatchObject({gameid: 'umk3', publisher: 'Midway'});
+  });
+
+  test('csv', async () => {
+    const {stdout, mock} = await run(['game', 'sfiii3nr1', '--format=csv']);
+    const game = mock.fixtures.games.find(game => game.gameid === 'sfiii3nr1')!;
+    expect(stdout.split('\n')[0]).toBe('gameid,name,system,emulator,year,publisher,ranked,training,genres');
+    expect(stdout.split('\n')[1]).toStartWith(`sfiii3nr1,"${game.name}",Arcade,fbneo`);
+  });
+
+  test('replay URLs are printed bare', async () => {
+    const {mock} = await run([]);
+    const replay = mock.fixtures.replays[0]!;
+    const {stdout} = await run(['replay-url', replay.quarkid]);
+    expect(stdout).toBe(`https://replay.fightcade.com/${replay.emulator}/${replay.gameid}/${replay.quarkid}\n`);
+  });
+});
@@ -0,0 +1,472 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createMockFightcade, type MockOptions } from '../src/testing.ts';
+
+const setup = (options: MockOptions = {}, client: Fightcade.ClientOptions = {}) => {
+  const mock = createMockFightcade(options);
+  return {mock, client: Fightcade.createClient({fetch: mock.fetch, retry: {minDelay: 0, maxDelay: 0}, ...client})};
+};
+
+describe('endpoints', () => {
+  test('GetUser looks users up case-insensitively', async () => {
+    const {client, mock} = setup();
+    const user = await client.GetUser('BIGGS');
+    expect(user.name).toBe('biggs');
+    expect(user.gameinfo?.['umk3']?.rank).toBe(5);
+    expect(mock.requests[0]?.body).toEqual({req: 'getuser', username: 'BIGGS'});
+  });
+
+  test('GetReplay finds a replay by quarkid', async () => {
+    const {client, mock} = setup();
+    const quarkid = mock.fixtures.replays[3]!.quarkid;
+    expect((await client.GetReplay(quarkid)).gameid).toBe('sfiii3nr1');
+  });
+
+  test('GetReplays defaults to the 15 newest replays', async () => {
+    const {client} = setup();
+    const replays = await client.GetReplays();
+    expect(replays).toHaveLength(15);
+    expect(replays.map(replay => replay.date)).toEqual([...replays.map(replay => replay.date)].sort((a, b) => b - a));
+  });
+
+  test('GetReplays filters by gameid and ranked', async () => {
+    const {client} = setup();
+    const replays = await client.GetReplays({gameid: 'sfiii3nr1', ranked: true, limit: 100});
+    expect(replays.length).toBeGreaterThan(0);
+    expect(replays.every(replay => replay.gameid === 'sfiii3nr1' && replay.ranked !== null)).toBe(true);
+  });
+
+  test('GetUserReplays only returns replays of the user', async () => {
+    const {client} = setup();
+    const replays = await client.GetUserReplays('bar', {limit: 100});
+    expect(replays).toHaveLength(26);
+    expect(replays.every(replay => replay.players.some(player => player.name === 'bar'))).toBe(true);
+  });
+
+  test('GetRankings sorts by rank and drops inactive players', async () => {
+    const {client} = setup();
+    expect((await client.GetRankings('umk3')).map(player => player.name)).toEqual(['biggs', 'foo']);
+    expect((await client.GetRankings('sfiii3nr1')).map(player => player.name)).toEqual(['bar', 'biggs']);
+    expect((await client.GetRankings('sfiii3nr1', {recent: false, byElo: false})).map(player => player.name)).toEqual(['biggs', 'bar']);
+  });
+
+  test('GetGame and GetEvents', async () => {
+    const {client} = setup();
+    expect((await client.GetGame('umk3')).publisher).toBe('Midway');
+    expect((await client.GetEvents()).map(event => event.name)[0]).toBe('UMK3 Weekly #12');
+    expect(await client.GetEvents({gameid: 'garou'})).toHaveLength(1);
+  });
+
+  test('GetReplayURL', () => {
+    const {client, mock} = setup();
+    const replay = mock.fixtures.replays[0]!;
+    expect(client.GetReplayURL(replay)).toBe(`https://replay.fightcade.com/fbneo/umk3/${replay.quarkid}`);
+  });
+
+  test('GetVideoURLs only returns known videos', async () => {
+    const {client, mock} = setup();
+    const [first, , third] = mock.fixtures.replays;
+    expect(Object.keys(await client.GetVideoURLs([first!.quarkid, third!.quarkid]))).toEqual([first!.quarkid]);
+    await expect(client.GetVideoURL(third!)).rejects.toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+  });
+
+  test('fixture edits are visible to the next request', async () => {
+    const {client, mock} = setup();
+    mock.fixtures.users.push({name: 'newcomer', ranked: false, date: 0});
+    expect((await client.GetUser('newcomer')).ranked).toBe(false);
+  });
+});
+
+describe('errors', () => {
+  test('unknown users, replays and games throw FightcadeNotFoundError', async () => {
+    const {client} = setup();
+    await expect(client.GetUser('nobody')).rejects.toMatchObject({name: 'FightcadeNotFoundError', resource: 'user', id: 'nobody'});
+    await expect(client.GetReplay('0-0')).rejects.toMatchObject({resource: 'replay'});
+    await expect(client.GetGame('nogame')).rejects.toMatchObject({resource: 'game'});
+    await expect(client.GetRankings('nogame')).rejects.toMatchObject({resource: 'game'});
+  });
+
+  test('other API failures throw FightcadeApiError', async () => {
+    const {client, mock} = setup();
+    mock.fail({res: 'maintenance'});
+    await expect(client.GetUser('biggs')).rejects.toMatchObject({name: 'FightcadeApiError', res: 'maintenance'});
+  });
+
+  test('HTTP failures throw FightcadeHttpError once retries are exhausted', async () => {
+    const {client, mock} = setup({}, {retry: {retries: 1, minDelay: 0, maxDelay: 0}});
+    mock.fail({status: 503, times: 2});
+    const error = await client.GetUser('biggs').catch(e => e);
+    expect(error).toBeInstanceOf(Fightcade.FightcadeHttpError);
+    expect(error.status).toBe(503);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  test('network failures throw FightcadeNetworkError', async () => {
+    const {client, mock} = setup({}, {retry: false});
+    mock.fail({network: true});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeNetworkError);
+  });
+
+  test('malformed responses throw FightcadeSchemaError', async () => {
+    const {client, mock} = setup();
+    mock.fail({body: {res: 'OK', user: {name: 42}}});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeSchemaError);
+    mock.fail({body: 'not json'});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeSchemaError);
+  });
+
+  test('every error extends FightcadeError', async () => {
+    const {client, mock} = setup({}, {retry: false});
+    mock.fail({status: 500});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeError);
+  });
+});
+
+describe('retries and rate limiting', () => {
+  test('retryable failures are retried', async () => {
+    const {client, mock} = setup();
+    mock.fail({endpoint: 'getuser', status: 429, headers: {'Retry-After': '0'}});
+    mock.fail({endpoint: 'getuser', network: true});
+    expect((await client.GetUser('biggs')).name).toBe('biggs');
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  test('Retry-After is capped at maxDelay', async () => {
+    const {client, mock} = setup({}, {retry: {maxDelay: 20}});
+    mock.fail({endpoint: 'getuser', status: 503, headers: {'Retry-After': '3600'}});
+    const started = Date.now();
+    expect((await client.GetUser('biggs')).name).toBe('biggs');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  test('client errors are not retried', async () => {
+    const {client, mock} = setup();
+    mock.fail({status: 400});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeHttpError);
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  test('concurrency limits requests in flight', async () => {
+    const mock = createMockFightcade({latency: 10});
+    let inflight = 0;
+    let peak = 0;
+    const client = Fightcade.createClient({rateLimit: {concurrency: 2}, fetch: async (url, init) => {
+      peak = Math.max(peak, ++inflight);
+      try {
+        return await mock.fetch(url, init);
+      } finally {
+        inflight--;
+      }
+    }});
+    await Promise.all(['biggs', 'foo', 'bar'].map(username => client.GetUser(username)));
+    expect(peak).toBe(2);
+    expect(mock.requests).toHaveLength(3);
+  });
+});
+
+describe('pagination', () => {
+  test('page functions return the total count', async () => {
+    const {client} = setup();
+    const page = await client.GetReplaysPage({limit: 5, offset: 35});
+    expect(page.count).toBe(40);
+    expect(page.results).toHaveLength(5);
+  });
+
+  test('iterators walk every page', async () => {
+    const {client, mock} = setup();
+    const quarkids: string[] = [];
+    for await (const replay of client.IterateReplays({pageSize: 15})) quarkids.push(replay.quarkid);
+    expect(quarkids).toHaveLength(40);
+    expect(new Set(quarkids).size).toBe(40);
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  test('iterators stop at maxItems and since', async () => {
+    const {client, mock} = setup();
+    const limited: Fightcade.Replay[] = [];
+    for await (const replay of client.IterateUserReplays('biggs', {maxItems: 7, pageSize: 5})) limited.push(replay);
+    expect(limited).toHaveLength(7);
+
+    const since = mock.fixtures.replays[9]!.date;
+    const recent: Fightcade.Replay[] = [];
+    for await (const replay of client.IterateReplays({since, pageSize: 4})) recent.push(replay);
+    expect(recent).toHaveLength(10);
+  });
+
+  test('IterateRankings and IterateEvents', async () => {
+    const {client} = setup();
+    const players: string[] = [];
+    for await (const player of client.IterateRankings('sfiii3nr1', {pageSize: 1})) players.push(player.name);
+    expect(players).toEqual(['bar', 'biggs']);
+    const events: string[] = [];
+    for await (const event of client.IterateEvents({pageSize: 3})) events.push(event.name);
+    expect(events).toHaveLength(4);
+  });
+});
+
+describe('GetUsers', () => {
+  test('looks every distinct user up once and keeps errors per user', async () => {
+    const {client, mock} = setup();
+    const progress: number[] = [];
+    const users = await client.GetUsers(['biggs', 'Biggs', 'nobody', 'foo'], {concurrency: 2, onProgress: ({completed}) => progress.push(completed)});
+    expect([...users.keys()]).toEqual(['biggs', 'nobody', 'foo']);
+    expect(users.get('nobody')).toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+    expect(progress).toEqual([1, 2, 3]);
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  test('invalid concurrency rejects without lookups', async () => {
+    const {client, mock} = setup();
+    for (const concurrency of [NaN, 0, 2.5]) {
+      await expect(client.GetUsers(['biggs'], {concurrency})).rejects.toBeInstanceOf(RangeError);
+    }
+    expect(mock.requests).toHaveLength(0);
+  });
+});
+
+describe('cache', () => {
+  test('identical requests are served from the cache', async () => {
+    const {client, mock} = setup({}, {cache: {}});
+    await client.GetUser('biggs');
+    await client.GetUser('biggs');
+    await client.GetReplays({gameid: 'umk3', limit: 5});
+    await client.GetReplays({limit: 5, gameid: 'umk3'});
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  test('concurrent identical requests share one round trip', async () => {
+    const {client, mock} = setup({latency: 5}, {cache: {ttl: {getuser: 0}}});
+    await Promise.all([client.GetGame('umk3'), client.GetGame('umk3')]);
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  test('a ttl of 0 disables caching', async () => {
+    const {client, mock} = setup({}, {cache: {ttl: {getuser: 0}}});
+    await client.GetUser('biggs');
+    await client.GetUser('biggs');
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  test('createMemoryCache evicts the least recently used entry', async () => {
+    const cache = Fightcade.createMemoryCache(2);
+    const entry = {value: 1, expires: Infinity, staleUntil: Infinity};
+    await cache.set('a', entry);
+    await cache.set('b', entry);
+    await cache.get('a');
+    await cache.set('c', entry);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBeDefined();
+  });
+});
+
+describe('cancellation', () => {
+  test('timeoutMs rejects with FightcadeTimeoutError and is not sent to Fightcade', async () => {
+    const {client, mock} = setup({latency: 50});
+    const error = await client.GetReplays({gameid: 'umk3', timeoutMs: 5}).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(Fightcade.FightcadeTimeoutError);
+    expect(error).toMatchObject({timeoutMs: 5});
+    expect(mock.requests[0]?.body).toEqual({req: 'searchquarks', gameid: 'umk3'});
+  });
+
+  test('the client timeout applies unless a request overrides it', async () => {
+    const {client} = setup({latency: 20}, {timeoutMs: 5});
+    expect(await client.GetUser('biggs').catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeTimeoutError);
+    expect((await client.GetUser('biggs', {timeoutMs: 0})).name).toBe('biggs');
+  });
+
+  test('timeouts apply to fetch implementations that ignore the signal', async () => {
+    const client = Fightcade.createClient({fetch: () => new Promise<Response>(() => {}), timeoutMs: 5});
+    expect(await client.GetGame('umk3').catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeTimeoutError);
+  });
+
+  test('signal rejects with FightcadeAbortError', async () => {
+    const {client, mock} = setup({latency: 50});
+    const controller = new AbortController();
+    const pending = client.GetReplay('1', {signal: controller.signal}).catch((e: unknown) => e);
+    controller.abort('cancelled');
+    const error = await pending;
+    expect(error).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect((error as Error).cause).toBe('cancelled');
+
+    mock.reset();
+    expect(await client.GetUser('biggs', {signal: AbortSignal.abort()}).catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  test('aborting cancels retry backoff', async () => {
+    const {client, mock} = setup({}, {retry: {minDelay: 10000, maxDelay: 10000}});
+    mock.fail({status: 503, times: Infinity});
+    const controller = new AbortController();
+    const retrying = client.GetUser('biggs', {signal: controller.signal}).catch((e: unknown) => e);
+    await Bun.sleep(5);
+    controller.abort();
+    expect(await retrying).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  test('aborted requests leave the rate limit queue', async () => {
+    const {client, mock} = setup({latency: 20}, {rateLimit: {concurrency: 1}});
+    const controller = new AbortController();
+    const running = client.GetUser('biggs');
+    const queued = client.GetUser('foo', {signal: controller.signal}).catch((e: unknown) => e);
+    const next = client.GetUser('bar');
+    controller.abort();
+    expect(await queued).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect((await running).name).toBe('biggs');
+    expect((await next).name).toBe('bar');
+    expect(mock.requests.map(request => (request.body as {username: string}).username)).toEqual(['biggs', 'bar']);
+  });
+
+  test('a shared request keeps running while another caller waits for it', async () => {
+    const {client, mock} = setup({latency: 20}, {cache: {}});
+    const controller = new AbortController();
+    const aborted = client.GetGame('umk3', {signal: controller.signal}).catch((e: unknown) => e);
+    const kept = client.GetGame('umk3');
+    controller.abort();
+    expect(await aborted).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect((await kept).gameid).toBe('umk3');
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  test('FightcadeVids requests', async () => {
+    const {client, mock} = setup({latency: 50});
+    expect(await client.GetVideoURLs(['1638725293444-1085'], {timeoutMs: 1}).catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeTimeoutError);
+    mock.reset();
+    expect(await client.GetVideoURL('1638725293444-1085', {signal: AbortSignal.abort()}).catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  test('iterators and GetUsers', async () => {
+    const {client} = setup({latency: 5});
+    const controller = new AbortController();
+    const names: string[] = [];
+    const iterate = async () => {
+      for await (const replay of client.IterateReplays({pageSize: 5, signal: controller.signal})) {
+        names.push(replay.quarkid);
+        if (names.length === 7) controller.abort();
+      }
+    };
+    expect(await iterate().catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeAbortError);
+    expect(names).toHaveLength(10);
+
+    const users = await client.GetUsers(['biggs', 'foo'], {timeoutMs: 1});
+    expect([...users.values()].every(user => user instanceof Fightcade.FightcadeTimeoutError)).toBe(true);
+    expect(await client.GetUsers(['biggs', 'foo'], {signal: AbortSignal.abort()}).catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeAbortError);
+  });
+});
+
+describe('middleware', () => {
+  test('middleware wraps requests in order and can change the body', async () => {
+    const {client, mock} = setup();
+    const order: string[] = [];
+    client
+      .use(async (request, next) => {
+        order.push(`outer ${request.type}`);
+        const response = await next({...request, body: {...request.body, username: 'foo'}});
+        order.push('outer done');
+        return response;
+      })
+      .use(async (request, next) => {
+        order.push(`inner ${String(request.body['username'])}`);
+        return next(request);
+      });
+    expect((await client.GetUser('biggs')).name).toBe('foo');
+    expect(order).toEqual(['outer getuser', 'inner foo', 'outer done']);
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  test('middleware can answer requests without calling next', async () => {
+    const answer = (value: unknown): Fightcade.Middleware => async () => ({value, status: null, cache: 'off', attempts: 0, duration: 0});
+    const {client, mock} = setup({}, {middleware: [answer({res: 'OK', user: {name: 'stub', ranked: false, date: 1}})]});
+    expect((await client.GetUser('biggs')).name).toBe('stub');
+    expect(mock.requests).toHaveLength(0);
+
+    // Answers are validated like Fightcade responses.
+    const invalid = Fightcade.createClient({fetch: mock.fetch, middleware: [answer({res: 'OK', user: {name: 'stub', date: 1}})]});
+    await expect(invalid.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeSchemaError);
+    const missing = Fightcade.createClient({fetch: mock.fetch, middleware: [answer({res: 'user not found'})]});
+    await expect(missing.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+  });
+
+  test('responses report status, cache status and retry attempts', async () => {
+    const responses: Fightcade.MiddlewareResponse[] = [];
+    const {client, mock} = setup({latency: 5}, {cache: {}, middleware: [async (request, next) => {
+      const response = await next(request);
+      responses.push(response);
+      return response;
+    }]});
+    mock.fail({endpoint: 'getuser', status: 503});
+    await client.GetUser('biggs');
+    await client.GetUser('biggs');
+    await Promise.all([client.GetGame('umk3'), client.GetGame('umk3')]);
+    expect(responses.map(({status, cache, attempts}) => [status, cache, attempts])).toEqual([
+      [200, 'miss', 2],
+      [null, 'hit', 0],
+      [200, 'miss', 1],
+      [null, 'shared', 0],
+    ]);
+  });
+
+  test('failed requests reject next() and keep their attempts', async () => {
+    let attempts: Fightcade.RequestAttempt[] = [];
+    const {client, mock} = setup({}, {middleware: [async (request, next) => {
+      attempts = request.attempts;
+      return next(request);
+    }]});
+    mock.fail({status: 500, times: 4});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeHttpError);
+    expect(attempts.map(attempt => attempt.status)).toEqual([500, 500, 500, 500]);
+    expect(attempts.every(attempt => attempt.error instanceof Fightcade.FightcadeHttpError)).toBe(true);
+  });
+});
+
+describe('transport', () => {
+  test('proxy transport sends API requests to the proxy and vids lookups directly', async () => {
+    const mock = createMockFightcade();
+    const urls: string[] = [];
+    const client = Fightcade.createClient({
+      retry: false,
+      transport: Fightcade.createProxyTransport({url: 'https://proxy.example/fc?v=1'}),
+      fetch: async (input, init) => {
+        urls.push(`${init.method} ${input}`);
+        const body = new URL(input).searchParams.get('body');
+        return mock.fetch(input, (body === null) ? init : {method: 'POST', body});
+      },
+    });
+    await client.GetRankings('umk3', {offset: 0, limit: 5});
+    await client.GetVideoURLs(['1638725293444-1085']);
+    expect(urls).toEqual([
+      `GET https://proxy.example/fc?v=1&body=${encodeURIComponent('{"gameid":"umk3","limit":5,"offset":0,"req":"searchrankings"}')}`,
+      'POST https://fightcadevids.com/api/videolinks',
+    ]);
+  });
+});
+
+describe('parsing', () => {
+  const drifted = {res: 'OK', user: {name: 'biggs', ranked: 'yes', date: 1, badge: 'gold'}};
+
+  test('lenient parsing recovers invalid fields and reports drift', async () => {
+    const drifts: Fightcade.SchemaDrift[] = [];
+    const {client, mock} = setup({}, {parsing: 'lenient', onSchemaDrift: drift => drifts.push(drift)});
+    mock.fail({body: {res: 'OK', user: {name: 'biggs', ranked: true, date: 1, last_online: 'yesterday', badge: 'gold'}}});
+    const user = await client.GetUser('biggs');
+    expect(user.name).toBe('biggs');
+    expect(user.last_online).toBeUndefined();
+    expect(drifts[0]?.unknownFields).toContain('user.badge');
+    expect(drifts[0]?.recovered).toBe(true);
+  });
+
+  test('passthrough parsing returns the raw response', async () => {
+    const {client, mock} = setup({}, {parsing: 'passthrough'});
+    mock.fail({body: drifted});
+    const user: unknown = await client.GetUser('biggs');
+    expect(user).toEqual(drifted.user);
+  });
+
+  test('exported schemas validate fixtures', () => {
+    const {mock} = setup();
+    for (const replay of mock.fixtures.replays) expect(Fightcade.ReplaySchema.safeParse(replay).success).toBe(true);
+    for (const game of mock.fixtures.games) expect(Fightcade.GameSchema.safeParse(game).success).toBe(true);
+  });
+});
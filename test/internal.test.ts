@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { abortable, createDeadline, pool, same } from '../src/internal.ts';
+
+describe('pool', () => {
+  test('runs every item with limited concurrency, including items added while running', async () => {
+    const items = [1, 2, 3];
+    const done: number[] = [];
+    let inflight = 0;
+    let peak = 0;
+    await pool(items, 2, async (item) => {
+      peak = Math.max(peak, ++inflight);
+      await Bun.sleep(1);
+      if (item === 1) items.push(4);
+      done.push(item);
+      inflight--;
+    });
+    expect(done.sort()).toEqual([1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  test('rejects invalid concurrency instead of running nothing', async () => {
+    for (const concurrency of [NaN, 0, -1, 1.5, Number('five')]) {
+      await expect(pool([1], concurrency, async () => {})).rejects.toBeInstanceOf(RangeError);
+    }
+    let runs = 0;
+    await pool([1, 2], Infinity, async () => {
+      runs++;
+    });
+    expect(runs).toBe(2);
+  });
+});
+
+describe('createDeadline', () => {
+  const errors = {timeout: () => 'timeout', abort: (reason: unknown) => `abort: ${String(reason)}`};
+
+  test('aborts with the timeout reason once the timeout elapses', async () => {
+    const deadline = createDeadline(undefined, 1, errors);
+    expect(deadline.error()).toBeUndefined();
+    await expect(abortable(new Promise(() => {}), deadline.signal)).rejects.toBe('timeout');
+    expect(deadline.error()).toBe('timeout');
+    deadline.clear();
+  });
+
+  test('follows the caller signal and reports its reason through abort', () => {
+    const controller = new AbortController();
+    const deadline = createDeadline(controller.signal, Infinity, errors);
+    controller.abort('stop');
+    expect(deadline.signal.reason).toBe('stop');
+    expect(deadline.error()).toBe('abort: stop');
+    expect(createDeadline(controller.signal, undefined, errors).error()).toBe('abort: stop');
+  });
+
+  test('clear stops the timeout and the caller signal', async () => {
+    const controller = new AbortController();
+    const deadline = createDeadline(controller.signal, 1, errors);
+    deadline.clear();
+    controller.abort();
+    await Bun.sleep(5);
+    expect(deadline.signal.aborted).toBe(false);
+  });
+});
+
+describe('same', () => {
+  test('compares case-insensitively', () => {
+    expect(same('Biggs', 'bIGGS')).toBe(true);
+    expect(same(undefined, 'biggs')).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'bun:test';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createJsonLinesLeaderboardStore, createLeaderboard, createMemoryLeaderboardStore, DiffLeaderboards, GetLeaderboardKey, RenderLeaderboard, TakeLeaderboardSnapshot, type LeaderboardSnapshot } from '../src/leaderboard.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const snapshot = (date: number, entries: [string, Fightcade.RankEnum][]): LeaderboardSnapshot => ({
+  gameid: 'umk3',
+  date,
+  byElo: true,
+  recent: true,
+  entries: entries.map(([name, rank], index) => ({position: index + 1, name, country: 'United States', rank})),
+});
+
+const previous = snapshot(1, [['biggs', 5], ['foo', 4], ['bar', 3]]);
+const current = snapshot(2, [['foo', 5], ['Biggs', 5], ['baz', 1]]);
+
+describe('DiffLeaderboards', () => {
+  test('detects moves, entrants, dropouts and rank tier changes', () => {
+    expect(DiffLeaderboards(previous, current)).toEqual({gameid: 'umk3', from: 1, to: 2, changes: [
+      {type: 'moved', name: 'foo', from: 2, to: 1, change: 1},
+      {type: 'promoted', name: 'foo', from: 4, to: 5},
+      {type: 'moved', name: 'Biggs', from: 1, to: 2, change: -1},
+      {type: 'entered', name: 'baz', position: 3, rank: 1},
+      {type: 'dropped', name: 'bar', position: 3, rank: 3},
+    ]});
+    expect(DiffLeaderboards(current, current).changes).toEqual([]);
+  });
+});
+
+describe('RenderLeaderboard', () => {
+  const diff = DiffLeaderboards(previous, current);
+
+  test('markdown', () => {
+    expect(RenderLeaderboard(current, {diff})).toBe([
+      '| # | Player | Country | Rank | Change |',
+      '| --- | --- | --- | --- | --- |',
+      '| 1 | foo | United States | A | ▲1, B → A |',
+      '| 2 | Biggs | United States | A | ▼1 |',
+      '| 3 | baz | United States | E | new |',
+      '',
+      'Dropped out: bar (#3)',
+    ].join('\n'));
+  });
+
+  test('text', () => {
+    expect(RenderLeaderboard(previous, {format: 'text', limit: 2})).toBe([
+      '#  Player  Country        Rank',
+      '-  ------  -------------  ----',
+      '1  biggs   United States  A',
+      '2  foo     United States  B',
+    ].join('\n'));
+  });
+});
+
+describe('createLeaderboard', () => {
+  test('snapshots every page, stores history and diffs', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    const first = await TakeLeaderboardSnapshot('umk3', {client, date: 1});
+    expect(first.entries).toEqual([
+      {position: 1, name: 'biggs', country: 'United States', rank: 5, num_matches: expect.any(Number)},
+      {position: 2, name: 'foo', country: 'Brazil', rank: 4, num_matches: expect.any(Number)},
+    ]);
+
+    const leaderboard = createLeaderboard({games: ['umk3', 'nogame'], client});
+    const update = await leaderboard.update();
+    expect(Object.keys(update.snapshots)).toEqual(['umk3']);
+    expect(update.diffs).toEqual({});
+    expect(update.errors['nogame']).toBeInstanceOf(Fightcade.FightcadeError);
+
+    mock.fixtures.users[1]!.gameinfo!['umk3']!.rank = 6;
+    const {diffs} = await leaderboard.update();
+    expect(diffs['umk3']?.changes).toEqual([
+      {type: 'moved', name: 'foo', from: 2, to: 1, change: 1},
+      {type: 'promoted', name: 'foo', from: 4, to: 6},
+      {type: 'moved', name: 'biggs', from: 1, to: 2, change: -1},
+    ]);
+    expect(await leaderboard.history('umk3')).toHaveLength(2);
+    expect(await leaderboard.diff('umk3')).toEqual(diffs['umk3']!);
+    expect(await leaderboard.diff('umk3', 0)).toBeUndefined();
+  });
+
+  test('updates only load the history once', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    const memory = createMemoryLeaderboardStore();
+    const loads: string[] = [];
+    const store = {...memory, load: (key: string) => {
+      loads.push(key);
+      return memory.load(key);
+    }};
+    const leaderboard = createLeaderboard({games: ['umk3'], store, client});
+    await leaderboard.update();
+    await leaderboard.update();
+    mock.fixtures.users[1]!.gameinfo!['umk3']!.rank = 6;
+    const {diffs} = await leaderboard.update();
+    expect(diffs['umk3']?.changes).toContainEqual({type: 'promoted', name: 'foo', from: 4, to: 6});
+    expect(loads).toEqual(['umk3:elo:recent']);
+  });
+
+  test('ranks fall back from the game info to the player', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    const results = [{name: 'biggs', country: 'US', gameinfo: {umk3: {rank: 5, num_matches: 10, last_match: 0, time_played: 0}}}, {name: 'foo', country: 'BR', rank: 3}];
+    mock.fail({endpoint: 'searchrankings', body: {res: 'OK', results: {results, count: 2}}});
+    const {entries} = await TakeLeaderboardSnapshot('umk3', {client});
+    expect(entries.map(entry => entry.rank)).toEqual([5, 3]);
+  });
+
+  test('JSON-Lines store', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'leaderboard-'));
+    try {
+      const store = createJsonLinesLeaderboardStore(join(dir, 'leaderboards.jsonl'));
+      expect(await store.load('umk3:elo:recent')).toEqual([]);
+      await store.append(GetLeaderboardKey(current), current);
+      await store.append(GetLeaderboardKey(previous), previous);
+      await store.append('umk3', previous);
+      expect(await store.load('umk3:elo:recent')).toEqual([previous, current]);
+      // A crash can leave a truncated line behind, the next append must not be lost.
+      await appendFile(join(dir, 'leaderboards.jsonl'), '{"key": "umk3');
+      await store.append('umk3:elo:all', current);
+      expect(await store.load('umk3:elo:all')).toEqual([current]);
+    } finally {
+      await rm(dir, {recursive: true, force: true});
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { ComputeRatings, ComputeStandings, GetLeague, ToLeagueSets, type LeagueSet } from '../src/league.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const roster = ['biggs', 'foo', 'bar'];
+
+const setup = () => {
+  const mock = createMockFightcade();
+  return {mock, client: Fightcade.createClient({fetch: mock.fetch, retry: false})};
+};
+
+const set = (a: string, b: string, scores: [number, number], date = 0): LeagueSet => ({
+  replay: {quarkid: `${date}-${a}-${b}`, channelname: '', date, duration: 0, emulator: 'fbneo', gameid: 'umk3', players: [], ranked: 3},
+  players: [a, b],
+  scores,
+  winner: (scores[0] === scores[1]) ? null : (scores[0] > scores[1]) ? a : b,
+  cancelled: false,
+});
+
+describe('GetLeague', () => {
+  test('builds standings, grid and ratings from de-duplicated sets', async () => {
+    const {client} = setup();
+    const league = await GetLeague({roster, gameid: 'umk3', client});
+
+    expect(league.sets).toHaveLength(24);
+    expect(new Set(league.sets.map(set => set.replay.quarkid)).size).toBe(24);
+    expect(league.sets.filter(set => set.cancelled)).toHaveLength(2);
+    expect(league.standings.map(({position, name, wins, losses, cancelled, points, gameDifference}) => [position, name, wins, losses, cancelled, points, gameDifference])).toEqual([
+      [1, 'bar', 9, 5, 2, 27, 8],
+      [2, 'biggs', 7, 8, 1, 21, -2],
+      [3, 'foo', 6, 9, 1, 18, -6],
+    ]);
+    expect(league.grid.players).toEqual(roster);
+    expect(league.grid.cells[0]![0]).toBeNull();
+    expect(league.grid.cells[0]![1]).toMatchObject({wins: 6, losses: 2});
+    expect(league.grid.cells[1]![0]).toMatchObject({wins: 2, losses: 6});
+    expect(league.ratings.reduce((sum, rating) => sum + rating.rating, 0)).toBeCloseTo(4500);
+    expect(league.ratings.every(rating => rating.sets === 15 || rating.sets === 14)).toBe(true);
+    expect(league.errors).toEqual({});
+  });
+
+  test('failed histories are reported and their sets found through opponents', async () => {
+    const {client, mock} = setup();
+    mock.fail({endpoint: 'searchquarks', status: 500});
+    const league = await GetLeague({roster, gameid: 'umk3', concurrency: 1, client});
+    expect(Object.keys(league.errors)).toEqual(['biggs']);
+    expect(league.sets).toHaveLength(24);
+    await expect(GetLeague({roster, gameid: 'umk3', client, signal: AbortSignal.abort()})).rejects.toBeInstanceOf(Fightcade.FightcadeAbortError);
+  });
+});
+
+describe('ToLeagueSets', () => {
+  test('filters by window, game and roster with the roster spelling', () => {
+    const {mock} = setup();
+    const replays = mock.fixtures.replays;
+    const sets = ToLeagueSets([...replays, ...replays], ['BIGGS', 'Foo', 'bar'], {gameid: 'umk3', from: replays[9]!.date, to: replays[0]!.date});
+    expect(sets.map(set => set.replay.quarkid)).toEqual([8, 6, 5, 2, 1].map(i => replays[i]!.quarkid));
+    expect(sets[0]!.players).toEqual(['bar', 'BIGGS']);
+    expect(ToLeagueSets(replays, ['biggs', 'foo'], {gameid: 'umk3'}).every(set => !set.players.includes('bar'))).toBe(true);
+  });
+});
+
+describe('ComputeStandings', () => {
+  test('tied players share a position', () => {
+    const standings = ComputeStandings([set('a', 'b', [3, 1]), set('b', 'a', [3, 1]), set('c', 'd', [2, 2])], ['a', 'b', 'c', 'd', 'e'], {draw: 0});
+    expect(standings.map(({position, name, points}) => [position, name, points])).toEqual([[1, 'a', 3], [1, 'b', 3], [3, 'c', 0], [3, 'd', 0], [5, 'e', 0]]);
+  });
+});
+
+describe('ComputeRatings', () => {
+  test('rates with Elo and Glicko', () => {
+    expect(ComputeRatings([set('a', 'b', [3, 0])], ['a', 'b']).map(({name, rating, rd}) => [name, rating, rd])).toEqual([['a', 1516, null], ['b', 1484, null]]);
+    const [winner, loser] = ComputeRatings([set('a', 'b', [3, 0])], ['a', 'b'], {system: 'glicko'});
+    expect(winner!.rating).toBeCloseTo(1662.2, 1);
+    expect(winner!.rd).toBeCloseTo(290.2, 1);
+    expect(loser!.rating).toBeCloseTo(1337.8, 1);
+  });
+});
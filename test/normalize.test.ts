@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { toNormalizedCountry, toNormalizedEvent, toNormalizedGame, toNormalizedReplay, toNormalizedUser, toRankedSet } from '../src/normalize.ts';
+import { createFixtures } from '../src/testing.ts';
+
+describe('normalize', () => {
+  test('toNormalizedCountry unifies objects, codes and names', () => {
+    expect(toNormalizedCountry({iso_code: 'us', full_name: 'United States'})).toEqual({code: 'US', name: 'United States'});
+    expect(toNormalizedCountry('br')).toEqual({code: 'BR', name: 'Brazil'});
+    expect(toNormalizedCountry('Japan')).toEqual({code: null, name: 'Japan'});
+  });
+
+  test('toRankedSet', () => {
+    expect(toRankedSet(null)).toEqual({kind: 'unranked'});
+    expect(toRankedSet(0)).toEqual({kind: 'unranked'});
+    expect(toRankedSet(3)).toEqual({kind: 'ft', n: 3});
+    expect(toRankedSet('cancelled')).toEqual({kind: 'cancelled'});
+  });
+
+  test('toNormalizedUser', () => {
+    const user = toNormalizedUser(createFixtures().users[2]!);
+    expect(user.lastOnline).toBeNull();
+    expect(user.createdAt).toBeInstanceOf(Date);
+    expect(user.games['sfiii3nr1']).toMatchObject({rank: 'C', matches: 40});
+    expect(user.games['sfiii3nr1']?.lastMatch).toBeInstanceOf(Date);
+  });
+
+  test('toNormalizedReplay computes the winner', () => {
+    const [won, lost, , , unranked, , , cancelled] = createFixtures().replays.map(toNormalizedReplay);
+    expect(won?.winner?.name).toBe('biggs');
+    expect(lost?.winner?.name).toBe('bar');
+    expect(unranked?.winner).toBeNull();
+    expect(cancelled?.ranked).toEqual({kind: 'cancelled'});
+    expect(cancelled?.winner).toBeNull();
+    expect(won?.duration).toBe(300000);
+    expect(won?.players[0]?.rank).toBe('A');
+  });
+
+  test('toNormalizedGame and toNormalizedEvent', () => {
+    const {games, events} = createFixtures();
+    expect(toNormalizedGame(games[2]!)).toMatchObject({year: 1995, genres: [], training: false});
+    expect(toNormalizedEvent(events[1]!)).toMatchObject({date: new Date(events[1]!.date), stream: null});
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createInMemorySpanExporter, createLoggingMiddleware, createTracingMiddleware, SpanKind, SpanStatusCode, type LogEntry } from '../src/observability.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+describe('createLoggingMiddleware', () => {
+  test('logs successful and failed requests', async () => {
+    const mock = createMockFightcade();
+    const entries: LogEntry[] = [];
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false, cache: {}, middleware: [createLoggingMiddleware(entry => entries.push(entry))]});
+    await client.GetUser('biggs');
+    await client.GetUser('biggs');
+    await expect(client.GetUser('nobody')).rejects.toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+
+    expect(entries.map(({type, body, status, cache, attempts}) => ({type, body, status, cache, attempts}))).toEqual([
+      {type: 'getuser', body: {req: 'getuser', username: 'biggs'}, status: 200, cache: 'miss', attempts: 1},
+      {type: 'getuser', body: {req: 'getuser', username: 'biggs'}, status: null, cache: 'hit', attempts: 0},
+      {type: 'getuser', body: {req: 'getuser', username: 'nobody'}, status: 200, cache: null, attempts: 1},
+    ]);
+    expect(entries[2]!.error).toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+    expect(entries.every(entry => entry.duration >= 0)).toBe(true);
+  });
+});
+
+describe('createTracingMiddleware', () => {
+  test('records a client span per request', async () => {
+    const mock = createMockFightcade();
+    const exporter = createInMemorySpanExporter();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: {minDelay: 0, maxDelay: 0}, middleware: [createTracingMiddleware(exporter.tracer)]});
+    mock.fail({endpoint: 'gameinfo', status: 503});
+    await client.GetGame('umk3');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span).toMatchObject({
+      name: 'Fightcade gameinfo',
+      kind: SpanKind.CLIENT,
+      status: {code: SpanStatusCode.OK},
+      attributes: {
+        'fightcade.request.type': 'gameinfo',
+        'http.request.method': 'POST',
+        'url.full': 'https://www.fightcade.com/api/',
+        'http.response.status_code': 200,
+        'fightcade.cache.status': 'off',
+        'fightcade.attempts': 2,
+        'http.request.resend_count': 1,
+      },
+    });
+    expect(span!.events.map(event => event.attributes['http.response.status_code'])).toEqual([503, 200]);
+    expect(span!.endTime).toBeGreaterThanOrEqual(span!.startTime);
+  });
+
+  test('records the method and URL the transport sent', async () => {
+    const mock = createMockFightcade();
+    const exporter = createInMemorySpanExporter();
+    const client = Fightcade.createClient({
+      retry: false,
+      cache: {},
+      fetch: (input, init) => mock.handle(new Request(new URL(input, 'http://localhost'), {...init, method: 'POST', body: new URL(input, 'http://localhost').searchParams.get('body')})),
+      transport: Fightcade.createProxyTransport({url: '/api'}),
+      middleware: [createTracingMiddleware(exporter.tracer)],
+    });
+    await client.GetGame('umk3');
+    await client.GetGame('umk3');
+
+    const [sent, cached] = exporter.getFinishedSpans();
+    expect(sent!.attributes['http.request.method']).toBe('GET');
+    expect(sent!.attributes['url.full']).toBe(`/api?body=${encodeURIComponent(JSON.stringify({gameid: 'umk3', req: 'gameinfo'}))}`);
+    expect(cached!.attributes['http.request.method']).toBeUndefined();
+  });
+
+  test('records failures as errors', async () => {
+    const mock = createMockFightcade();
+    const exporter = createInMemorySpanExporter();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false, middleware: [createTracingMiddleware(exporter.tracer)]});
+    mock.fail({network: true});
+    await expect(client.GetUser('biggs')).rejects.toBeInstanceOf(Fightcade.FightcadeNetworkError);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span!.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span!.attributes['error.type']).toBe('FightcadeNetworkError');
+    expect(span!.attributes['http.response.status_code']).toBeUndefined();
+    expect(span!.exceptions[0]).toBeInstanceOf(Fightcade.FightcadeNetworkError);
+
+    exporter.reset();
+    expect(exporter.getFinishedSpans()).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { GetPlayerProfile } from '../src/profile.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const now = Date.UTC(2024, 5, 1);
+
+describe('GetPlayerProfile', () => {
+  test('combines user info, replays, rankings and games', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    const profile = await GetPlayerProfile('BIGGS', {client, now, recentSets: 3, opponents: 1});
+
+    expect(profile.name).toBe('biggs');
+    expect(profile.accountAge).toBe(now - profile.createdAt.getTime());
+    expect(profile.games.map(game => [game.gameid, game.rank, game.position, game.hoursPlayed, game.game?.gameid])).toEqual([
+      ['umk3', 'A', 1, 1800, 'umk3'],
+      ['sfiii3nr1', 'D', 2, 40, 'sfiii3nr1'],
+    ]);
+    expect(profile.record).toMatchObject({sets: 22, wins: 10, losses: 10, cancelled: 2});
+    expect(profile.recentSets).toHaveLength(3);
+    expect(profile.recentSets.map(set => set.replay.date)).toEqual([...profile.recentSets.map(set => set.replay.date)].sort((a, b) => b - a));
+    expect(profile.opponents).toEqual([expect.objectContaining({name: 'bar', sets: 11})]);
+    expect(profile.countries).toEqual([{code: 'BR', name: 'Brazil', sets: 14}, {code: null, name: 'Japan', sets: 13}]);
+    expect(profile.errors).toEqual({});
+  });
+
+  test('reports failed partial lookups and skips what is disabled', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    mock.fail({endpoint: 'gameinfo', status: 500, times: Infinity});
+    const profile = await GetPlayerProfile('foo', {client, rankingsDepth: 0, mostPlayed: 1});
+    expect(Object.keys(profile.errors)).toEqual(['game:umk3']);
+    expect(profile.games.every(game => game.position === null && game.game === null)).toBe(true);
+    expect(mock.requests.some(request => request.endpoint === 'searchrankings')).toBe(false);
+  });
+
+  test('a missing user or an abort rejects', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    expect(await GetPlayerProfile('nobody', {client}).catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+    expect(await GetPlayerProfile('biggs', {client, signal: AbortSignal.abort()}).catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeAbortError);
+  });
+
+  test('a missing user cancels the replay requests', async () => {
+    const mock = createMockFightcade({latency: 20});
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    let signal: AbortSignal | undefined;
+    const profile = GetPlayerProfile('biggs', {client: {
+      ...client,
+      GetUser: () => Promise.reject(new Fightcade.FightcadeNotFoundError('user', 'biggs')),
+      IterateUserReplays(username, args = {}) {
+        signal = args.signal;
+        return client.IterateUserReplays(username, args);
+      },
+    }});
+    expect(await profile.catch((e: unknown) => e)).toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+    expect(signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createProxyHandler } from '../src/proxy.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const setup = (options: Parameters<typeof createProxyHandler>[0] = {}) => {
+  const mock = createMockFightcade();
+  const handler = createProxyHandler({fetch: mock.fetch, ...options});
+  const get = (body: unknown, headers: Record<string, string> = {}) => handler(new Request(`http://localhost/api?body=${encodeURIComponent(JSON.stringify(body))}`, {headers}));
+  return {mock, handler, get};
+};
+
+describe('createProxyHandler', () => {
+  test('serves the client through the proxy transport', async () => {
+    const {mock, handler} = setup();
+    const client = Fightcade.createClient({
+      retry: false,
+      fetch: (input, init) => handler(new Request(new URL(input, 'http://localhost'), init)),
+      transport: Fightcade.createProxyTransport({url: '/api'}),
+    });
+    expect((await client.GetUser('biggs')).name).toBe('biggs');
+    const names: string[] = [];
+    for await (const replay of client.IterateUserReplays('biggs', {pageSize: 10, maxItems: 15, ranked: true})) names.push(replay.quarkid);
+    expect(names).toHaveLength(15);
+    await expect(client.GetUser('nobody')).rejects.toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+
+    const post = Fightcade.createClient({retry: false, fetch: (input, init) => handler(new Request(input, init)), transport: Fightcade.createProxyTransport({url: 'http://localhost/api', method: 'POST'})});
+    expect((await post.GetGame('umk3')).gameid).toBe('umk3');
+    expect(mock.requests).toHaveLength(5);
+  });
+
+  test('sets caching headers per request type', async () => {
+    const {get} = setup({maxAge: {getuser: 10}});
+    expect((await get({req: 'getuser', username: 'biggs'})).headers.get('Cache-Control')).toBe('public, max-age=10, stale-while-revalidate=60');
+    expect((await get({req: 'gameinfo', gameid: 'umk3'})).headers.get('Cache-Control')).toBe('public, max-age=86400, stale-while-revalidate=60');
+    expect((await get({req: 'getuser', username: 'nobody'})).headers.get('Cache-Control')).toBe('no-store');
+  });
+
+  test('rejects invalid requests without forwarding them', async () => {
+    const {mock, handler, get} = setup();
+    const statuses = await Promise.all([
+      get({req: 'login', username: 'biggs'}),
+      get({req: 'getuser', username: 'biggs', password: 'hunter2'}),
+      get({req: 'searchrankings', gameid: 'umk3', limit: 1000}),
+      get({req: 'getuser'}),
+      handler(new Request('http://localhost/api?body=%7B')),
+      handler(new Request('http://localhost/api', {method: 'POST', body: 'x'.repeat(5000)})),
+      handler(new Request('http://localhost/api', {method: 'DELETE'})),
+    ].map(async response => (await response).status));
+    expect(statuses).toEqual([400, 400, 400, 400, 400, 413, 405]);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  test('stops reading oversized bodies', async () => {
+    const {handler} = setup();
+    const declared = new Request('http://localhost/api', {method: 'POST', body: '{}', headers: {'Content-Length': '5000'}});
+    expect((await handler(declared)).status).toBe(413);
+    expect(declared.bodyUsed).toBe(false);
+
+    // A body without a `Content-Length` that never ends is cut off.
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new Uint8Array(1024).fill(0x20));
+      },
+    });
+    expect((await handler(new Request('http://localhost/api', {method: 'POST', body: endless, duplex: 'half'}))).status).toBe(413);
+    expect(pulls).toBeLessThan(10);
+  });
+
+  test('answers CORS preflights and enforces allowed origins', async () => {
+    const {handler, get} = setup({origins: ['https://dashboard.example']});
+    const preflight = await handler(new Request('http://localhost/api', {method: 'OPTIONS', headers: {Origin: 'https://dashboard.example'}}));
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe('https://dashboard.example');
+    expect(preflight.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, OPTIONS');
+    expect((await get({req: 'gameinfo', gameid: 'umk3'}, {Origin: 'https://evil.example'})).status).toBe(403);
+    expect((await setup().get({req: 'gameinfo', gameid: 'umk3'}, {Origin: 'https://evil.example'})).headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+
+  test('reports upstream failures', async () => {
+    const {mock, get} = setup();
+    mock.fail({status: 429, headers: {'Retry-After': '3'}});
+    const limited = await get({req: 'getuser', username: 'biggs'});
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('3');
+    expect(limited.headers.get('Content-Type')).toBe('application/json');
+    mock.fail({status: 503, headers: {'Content-Type': 'text/html'}, body: '<h1>Maintenance</h1>'});
+    const unavailable = await get({req: 'getuser', username: 'biggs'});
+    expect(unavailable.status).toBe(503);
+    expect(unavailable.headers.get('Content-Type')).toBe('text/html');
+    expect(await unavailable.text()).toBe('<h1>Maintenance</h1>');
+    mock.fail({network: true});
+    expect((await get({req: 'getuser', username: 'biggs'})).status).toBe(502);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createRankTracker, DiffRankSnapshots, TakeRankSnapshot, type RankChange } from '../src/rank-tracker.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('DiffRankSnapshots', () => {
+  const previous = {username: 'biggs', date: 100 * DAY, games: {
+    umk3: {rank: 4, time_played: 1, last_match: 99 * DAY},
+    sfiii3nr1: {rank: 3, time_played: 1, last_match: 10 * DAY},
+    garou: {rank: 0, time_played: 1},
+  }} as const;
+
+  test('rank changes and new ranked games', () => {
+    const current = {username: 'biggs', date: 101 * DAY, games: {...previous.games, umk3: {rank: 5, time_played: 2, last_match: 99 * DAY}, sfiii3nr1: {rank: 2, time_played: 1, last_match: 10 * DAY}, garou: {rank: 1, time_played: 1}}} as const;
+    expect(DiffRankSnapshots(previous, current)).toEqual([
+      {type: 'rankUp', username: 'biggs', gameid: 'umk3', from: 4, to: 5},
+      {type: 'rankDown', username: 'biggs', gameid: 'sfiii3nr1', from: 3, to: 2},
+      {type: 'newRankedGame', username: 'biggs', gameid: 'garou', rank: 1},
+    ]);
+  });
+
+  test('games played again after being inactive', () => {
+    const current = {username: 'biggs', date: 101 * DAY, games: {...previous.games, umk3: {...previous.games.umk3, last_match: 101 * DAY}, sfiii3nr1: {...previous.games.sfiii3nr1, last_match: 101 * DAY}, garou: {rank: 0, time_played: 2, last_match: 101 * DAY}}} as const;
+    expect(DiffRankSnapshots(previous, current).map(change => change.gameid)).toEqual(['sfiii3nr1', 'garou']);
+  });
+});
+
+describe('createRankTracker', () => {
+  test('the first check stores snapshots, later checks emit changes', async () => {
+    const mock = createMockFightcade();
+    const tracker = createRankTracker({usernames: ['biggs', 'nobody'], client: Fightcade.createClient({fetch: mock.fetch})});
+    const emitted: RankChange[] = [];
+    const errors: string[] = [];
+    tracker.on('rankUp', change => emitted.push(change));
+    tracker.on('error', ({username}) => errors.push(username));
+
+    expect(await tracker.check()).toEqual([]);
+    expect(errors).toEqual(['nobody']);
+
+    mock.fixtures.users[0]!.gameinfo!['sfiii3nr1']!.rank = 3;
+    const changes = await tracker.check();
+    expect(changes).toEqual([{type: 'rankUp', username: 'biggs', gameid: 'sfiii3nr1', from: 2, to: 3}]);
+    expect(emitted).toEqual(changes);
+  });
+
+  test('TakeRankSnapshot keeps only GameInfo', () => {
+    const snapshot = TakeRankSnapshot({name: 'biggs', ranked: true, date: 0, gameinfo: {umk3: {rank: null, time_played: 5}}}, 10);
+    expect(snapshot).toEqual({username: 'biggs', date: 10, games: {umk3: {rank: 0, time_played: 5}}});
+  });
+});
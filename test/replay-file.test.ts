@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { DownloadReplay, DownloadReplays, FightcadeReplayFileError, OpenReplayStream } from '../src/replay-file.ts';
+import { createFixtures } from '../src/testing.ts';
+
+// Replay files are opaque to the downloader, so any bytes will do.
+const file = Uint8Array.from({length: 300}, (_, i) => (i * 7) % 256);
+const url = (replay: Fightcade.Replay) => `https://replays.example.com/${replay.replay_file}`;
+
+// Serves `file` for every replay, honoring range requests like a static file host.
+const serve = (file: Uint8Array, requests: (string | undefined)[] = []): Fightcade.Fetch => async (_, init) => {
+  const range = new Headers(init.headers).get('Range');
+  requests.push(range ?? undefined);
+  const start = Number(range?.match(/^bytes=(\d+)-$/)?.[1] ?? 0);
+  if (start >= file.byteLength && start > 0) return new Response(null, {status: 416});
+  return new Response(file.slice(start), {status: start ? 206 : 200, headers: {'Content-Length': String(file.byteLength - start)}});
+};
+
+describe('DownloadReplay', () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fightcade-'));
+  });
+  afterEach(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  test('streams the file to disk', async () => {
+    const [replay] = createFixtures().replays;
+    const progress: number[] = [];
+    const result = await DownloadReplay(replay!, join(directory, 'a.fcr'), {url, fetch: serve(file), onProgress: ({received}) => progress.push(received)});
+    expect(result).toEqual({quarkid: replay!.quarkid, size: file.byteLength, resumed: false});
+    expect(progress.at(-1)).toBe(file.byteLength);
+    expect(Buffer.compare(await readFile(join(directory, 'a.fcr')), file)).toBe(0);
+  });
+
+  test('resumes a partial download', async () => {
+    const [replay] = createFixtures().replays;
+    await writeFile(join(directory, 'a.fcr.part'), file.subarray(0, 100));
+    const requests: (string | undefined)[] = [];
+    const result = await DownloadReplay(replay!, join(directory, 'a.fcr'), {url, fetch: serve(file, requests)});
+    expect(result.resumed).toBe(true);
+    expect(requests).toEqual(['bytes=100-']);
+    expect(Buffer.compare(await readFile(join(directory, 'a.fcr')), file)).toBe(0);
+  });
+
+  test('starts over when the partial download does not fit', async () => {
+    const [replay] = createFixtures().replays;
+    await writeFile(join(directory, 'a.fcr.part'), new Uint8Array(file.byteLength + 10));
+    const requests: (string | undefined)[] = [];
+    expect((await DownloadReplay(replay!, join(directory, 'a.fcr'), {url, fetch: serve(file, requests)})).resumed).toBe(false);
+    expect(requests).toEqual([`bytes=${file.byteLength + 10}-`, undefined]);
+  });
+
+  test('validates the size', async () => {
+    const [replay] = createFixtures().replays;
+    await expect(DownloadReplay(replay!, join(directory, 'a.fcr'), {url, fetch: serve(file), maxSize: 100})).rejects.toBeInstanceOf(FightcadeReplayFileError);
+    const truncated: Fightcade.Fetch = async () => new Response(file.slice(0, 10), {headers: {'Content-Length': String(file.byteLength)}});
+    await expect(DownloadReplay(replay!, join(directory, 'b.fcr'), {url, fetch: truncated})).rejects.toThrow(/Received 10 of/);
+  });
+
+  test('missing replay files throw FightcadeNotFoundError', async () => {
+    const [replay] = createFixtures().replays;
+    const missing: Fightcade.Fetch = async () => new Response('', {status: 404});
+    await expect(DownloadReplay(replay!, join(directory, 'a.fcr'), {url, fetch: missing})).rejects.toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+  });
+
+  test('DownloadReplays reports every replay', async () => {
+    const replays = createFixtures().replays.slice(0, 5);
+    const files = serve(file);
+    const fetch: Fightcade.Fetch = (input, init) => (input === url(replays[4]!)) ? Promise.resolve(new Response('', {status: 404})) : files(input, init);
+    const results = await DownloadReplays([...replays, replays[0]!], directory, {url, fetch, concurrency: 2});
+    expect([...results.keys()]).toEqual(replays.map(replay => replay.quarkid));
+    expect(results.get(replays[4]!.quarkid)).toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+    expect((await readFile(join(directory, `${replays[3]!.quarkid}.fcr`))).byteLength).toBe(file.byteLength);
+  });
+
+  test('OpenReplayStream', async () => {
+    const [replay] = createFixtures().replays;
+    const bytes = new Uint8Array(await new Response(await OpenReplayStream(replay!, {url, fetch: serve(file)})).arrayBuffer());
+    expect(Buffer.compare(bytes, file)).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createFixtures, createMockFightcade } from '../src/testing.ts';
+
+describe('createMockFightcade', () => {
+  test('bundled fixtures match the response schemas', () => {
+    const {users, replays, games, events} = createFixtures();
+    for (const {country, ...user} of users) expect(Fightcade.UserSchema.safeParse(user).success).toBe(true);
+    for (const replay of replays) expect(Fightcade.ReplaySchema.safeParse(replay).success).toBe(true);
+    for (const game of games) expect(Fightcade.GameSchema.safeParse(game).success).toBe(true);
+    for (const event of events) expect(Fightcade.EventSchema.safeParse(event).success).toBe(true);
+  });
+
+  test('handle serves the mock from an in-process server', async () => {
+    const mock = createMockFightcade();
+    const server = Bun.serve({port: 0, fetch: request => mock.handle(request)});
+    try {
+      const url = `http://localhost:${server.port}/api/`;
+      const client = Fightcade.createClient({baseUrls: {api: url, vids: `${url}videolinks`}});
+      expect((await client.GetGame('umk3')).name).toContain('Mortal Kombat');
+      expect(mock.requests[0]).toMatchObject({endpoint: 'gameinfo', url});
+      expect((await fetch(url)).status).toBe(405);
+      expect((await fetch(url, {method: 'POST', body: '{}'})).status).toBe(400);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test('faults are consumed per matching request', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    mock.fail({endpoint: 'gameinfo', status: 500, times: 2});
+    expect((await client.GetUser('biggs')).name).toBe('biggs');
+    await expect(client.GetGame('umk3')).rejects.toBeInstanceOf(Fightcade.FightcadeHttpError);
+    await expect(client.GetGame('umk3')).rejects.toBeInstanceOf(Fightcade.FightcadeHttpError);
+    expect((await client.GetGame('umk3')).gameid).toBe('umk3');
+
+    mock.fail({status: 500, times: Infinity});
+    mock.reset();
+    expect((await client.GetGame('umk3')).gameid).toBe('umk3');
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  test('latency delays responses and honors abort signals', async () => {
+    const mock = createMockFightcade({latency: {min: 20, max: 30}});
+    const started = performance.now();
+    await mock.fetch('https://www.fightcade.com/api/', {method: 'POST', body: JSON.stringify({req: 'gameinfo', gameid: 'umk3'})});
+    expect(performance.now() - started).toBeGreaterThanOrEqual(19);
+
+    const controller = new AbortController();
+    const pending = mock.fetch('https://www.fightcade.com/api/', {method: 'POST', body: JSON.stringify({req: 'gameinfo', gameid: 'umk3'}), signal: controller.signal});
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({name: 'AbortError'});
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createFightcadeVidsProvider, createHttpVideoProvider, createLocalVideoProvider, createVideoRegistry, type VideoProvider } from '../src/videos.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const failing = (name: string): VideoProvider => ({name, lookup: async () => Promise.reject(new Error('offline'))});
+
+describe('createVideoRegistry', () => {
+  test('later providers only resolve what earlier ones could not', async () => {
+    const asked: string[][] = [];
+    const remote: VideoProvider = {name: 'remote', async lookup(quarkids) {
+      asked.push(quarkids);
+      return {a: ['https://remote/a'], b: ['https://remote/b']};
+    }};
+    const videos = createVideoRegistry({providers: [createLocalVideoProvider({a: 'https://local/a'}), remote]});
+    expect(await videos.GetVideoURLs(['a', 'b', 'c', 'a'])).toEqual({a: 'https://local/a', b: 'https://remote/b'});
+    expect(asked).toEqual([['b', 'c']]);
+    expect(await videos.GetVideoURL('a')).toBe('https://local/a');
+    await expect(videos.GetVideoURL('c')).rejects.toBeInstanceOf(Fightcade.FightcadeNotFoundError);
+  });
+
+  test('failed and timed out providers are skipped', async () => {
+    const errors: [string, Fightcade.FightcadeError][] = [];
+    const slow: VideoProvider = {name: 'slow', lookup: () => new Promise(() => {})};
+    const videos = createVideoRegistry({
+      providers: [failing('broken'), slow, createLocalVideoProvider({a: 'https://local/a'})],
+      timeoutMs: 5,
+      onError: (provider, error) => errors.push([provider, error]),
+    });
+    expect(await videos.GetVideoURLs(['a'])).toEqual({a: 'https://local/a'});
+    expect(errors.map(([provider]) => provider)).toEqual(['broken', 'slow']);
+    expect(errors[0]![1].cause).toBeInstanceOf(Error);
+    expect(errors[1]![1]).toBeInstanceOf(Fightcade.FightcadeTimeoutError);
+
+    videos.unregister('slow');
+    videos.unregister('local');
+    expect(videos.providers().map(provider => provider.name)).toEqual(['broken']);
+    await expect(videos.GetVideoURLs(['a'])).rejects.toBeInstanceOf(Fightcade.FightcadeError);
+    await expect(videos.GetVideoURLs(['a'], {signal: AbortSignal.abort()})).rejects.toBeInstanceOf(Fightcade.FightcadeAbortError);
+  });
+
+  test('GetVideoLinks collects the links of every provider', async () => {
+    const mock = createMockFightcade();
+    const client = Fightcade.createClient({fetch: mock.fetch, retry: false});
+    const [first, second] = mock.fixtures.replays;
+    const videos = createVideoRegistry()
+      .register(createLocalVideoProvider({[first!.quarkid]: ['https://youtu.be/1', 'https://youtu.be/2']}))
+      .register(createFightcadeVidsProvider(client))
+      .register(failing('broken'));
+    const {links, errors} = await videos.GetVideoLinks([first!, second!]);
+    expect(links[first!.quarkid]!.map(link => [link.url, link.provider])).toEqual([
+      ['https://youtu.be/1', 'local'],
+      ['https://youtu.be/2', 'local'],
+      [`https://fightcadevids.com/watch/${first!.quarkid}`, 'fightcadevids'],
+    ]);
+    expect(links[second!.quarkid]).toEqual([{quarkid: second!.quarkid, url: `https://fightcadevids.com/watch/${second!.quarkid}`, provider: 'fightcadevids'}]);
+    expect(Object.keys(errors)).toEqual(['broken']);
+  });
+});
+
+describe('createFightcadeVidsProvider', () => {
+  test('passes the lookup signal on to the request', async () => {
+    const mock = createMockFightcade({latency: 50});
+    const provider = createFightcadeVidsProvider(Fightcade.createClient({fetch: mock.fetch, retry: false}));
+    const controller = new AbortController();
+    const lookup = provider.lookup(['1638725293444-1085'], {signal: controller.signal}).catch((e: unknown) => e);
+    await Bun.sleep(5);
+    controller.abort();
+    expect(await lookup).toBeInstanceOf(Fightcade.FightcadeAbortError);
+  });
+});
+
+describe('createHttpVideoProvider', () => {
+  test('caches whole indexes and fetches batches', async () => {
+    const urls: string[] = [];
+    const fetch: Fightcade.Fetch = async url => {
+      urls.push(url);
+      return url.includes('missing') ? new Response('Not Found', {status: 404}) : Response.json({a: 'https://index/a', b: ['https://index/b']});
+    };
+    const signal = new AbortController().signal;
+    const index = createHttpVideoProvider({url: 'https://example.com/index.json', fetch});
+    expect(await index.lookup(['a', 'c'], {signal})).toEqual({a: ['https://index/a']});
+    expect(await index.lookup(['b'], {signal})).toEqual({b: ['https://index/b']});
+    const batched = createHttpVideoProvider({url: quarkids => `https://example.com/videos?ids=${quarkids.join(',')}`, fetch});
+    await batched.lookup(['a', 'b'], {signal});
+    expect(urls).toEqual(['https://example.com/index.json', 'https://example.com/videos?ids=a,b']);
+    await expect(createHttpVideoProvider({url: 'https://example.com/missing.json', fetch}).lookup(['a'], {signal})).rejects.toBeInstanceOf(Fightcade.FightcadeHttpError);
+  });
+});
+
+describe('createLocalVideoProvider', () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fightcade-'));
+  });
+  afterEach(async () => {
+    await rm(directory, {recursive: true, force: true});
+  });
+
+  test('reads the mapping file on every lookup', async () => {
+    const path = join(directory, 'videos.json');
+    const provider = createLocalVideoProvider(path);
+    const signal = new AbortController().signal;
+    expect(await provider.lookup(['a'], {signal})).toEqual({});
+    await writeFile(path, JSON.stringify({a: 'https://local/a'}));
+    expect(await provider.lookup(['a'], {signal})).toEqual({a: ['https://local/a']});
+    await writeFile(path, '{"a": 1}');
+    await expect(provider.lookup(['a'], {signal})).rejects.toBeInstanceOf(Fightcade.FightcadeSchemaError);
+  });
+});
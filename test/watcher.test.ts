@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+import { Fightcade } from '../src/fightcade-api.ts';
+import { createWatcher } from '../src/watcher.ts';
+import { createMockFightcade } from '../src/testing.ts';
+
+const setup = () => {
+  const mock = createMockFightcade();
+  const client = Fightcade.createClient({fetch: mock.fetch});
+  const newest = Math.max(...mock.fixtures.replays.map(replay => replay.date));
+  return {mock, client, newest};
+};
+
+describe('createWatcher', () => {
+  test('emits replays once, oldest first', async () => {
+    const {mock, client, newest} = setup();
+    const watcher = createWatcher({games: ['umk3'], since: newest - 24 * 60 * 60 * 1000, client});
+    const seen: string[] = [];
+    watcher.on('replay', ({replay}) => seen.push(replay.quarkid));
+    await watcher.poll();
+    expect(new Set(seen).size).toBe(seen.length);
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen.at(-1)).toBe(mock.fixtures.replays[0]!.quarkid);
+
+    seen.length = 0;
+    await watcher.poll();
+    expect(seen).toEqual([]);
+
+    mock.fixtures.replays.push({...mock.fixtures.replays[0]!, quarkid: 'new-1', date: Date.now()});
+    await watcher.poll();
+    expect(seen).toEqual(['new-1']);
+  });
+
+  test('the first event poll is a baseline', async () => {
+    const {mock, client} = setup();
+    const watcher = createWatcher({events: true, client});
+    const seen: string[] = [];
+    watcher.on('event', ({event}) => seen.push(event.name));
+    await watcher.poll();
+    expect(seen).toEqual([]);
+    mock.fixtures.events.push({name: 'New Event', author: 'foo', date: 0, gameid: 'umk3', link: '', region: 'EU'});
+    await watcher.poll();
+    expect(seen).toEqual(['New Event']);
+  });
+
+  test('emits userOnline when last_online changes', async () => {
+    const {mock, client} = setup();
+    const watcher = createWatcher({users: ['foo'], since: Infinity, client});
+    const online: [number, number | undefined][] = [];
+    watcher.on('userOnline', ({last_online, previous}) => online.push([last_online, previous]));
+    await watcher.poll();
+    const user = mock.fixtures.users[1]!;
+    const previous = user.last_online;
+    user.last_online = 123;
+    await watcher.poll();
+    expect(online).toEqual([[123, previous]]);
+  });
+
+  test('failed polls emit errors and keep going', async () => {
+    const mock = createMockFightcade();
+    const watcher = createWatcher({allReplays: true, client: Fightcade.createClient({fetch: mock.fetch, retry: false})});
+    const errors: unknown[] = [];
+    watcher.on('error', ({error}) => errors.push(error));
+    mock.fail({status: 500});
+    await watcher.poll();
+    expect(errors[0]).toBeInstanceOf(Fightcade.FightcadeHttpError);
+  });
+
+  test('a throwing listener does not hold back other replays', async () => {
+    const {client, newest} = setup();
+    const watcher = createWatcher({games: ['umk3'], since: newest - 24 * 60 * 60 * 1000, client});
+    const delivered: string[] = [];
+    const errors: unknown[] = [];
+    watcher.on('replay', ({replay}) => {
+      if (!delivered.length) {
+        delivered.push('failed');
+        throw new Error('listener');
+      }
+      delivered.push(replay.quarkid);
+    });
+    watcher.on('error', ({error}) => errors.push(error));
+    await watcher.poll();
+    expect(delivered.length).toBeGreaterThan(2);
+    expect(errors).toEqual([new Error('listener')]);
+  });
+
+  test('start and stop', async () => {
+    const {mock, client} = setup();
+    const watcher = createWatcher({allReplays: true, intervals: {replays: 5}, client});
+    watcher.start();
+    await Bun.sleep(30);
+    watcher.stop();
+    const requests = mock.requests.length;
+    expect(requests).toBeGreaterThan(1);
+    await Bun.sleep(20);
+    expect(mock.requests.length).toBe(requests);
+  });
+
+  test('restarting during a poll keeps one polling chain', async () => {
+    const mock = createMockFightcade({latency: 10});
+    const watcher = createWatcher({allReplays: true, intervals: {replays: 5}, client: Fightcade.createClient({fetch: mock.fetch})});
+    watcher.start();
+    watcher.stop();
+    watcher.start();
+    await Bun.sleep(60);
+    watcher.stop();
+    await Bun.sleep(30);
+    const requests = mock.requests.length;
+    // One chain polls every 15ms at most, two would poll about twice as often.
+    expect(requests).toBeLessThanOrEqual(6);
+    await Bun.sleep(40);
+    expect(mock.requests.length).toBe(requests);
+  });
+
+  test('poll waits for a running scheduled poll', async () => {
+    const mock = createMockFightcade({latency: 10});
+    let inflight = 0;
+    let peak = 0;
+    const client = Fightcade.createClient({fetch: async (url, init) => {
+      peak = Math.max(peak, ++inflight);
+      try {
+        return await mock.fetch(url, init);
+      } finally {
+        inflight--;
+      }
+    }});
+    const watcher = createWatcher({allReplays: true, intervals: {replays: 1000}, client});
+    watcher.start();
+    await watcher.poll();
+    watcher.stop();
+    expect(peak).toBe(1);
+    expect(mock.requests).toHaveLength(2);
+  });
+});
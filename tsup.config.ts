@@ -0,0 +1,29 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  entry: [
+    './src/fightcade-api.ts',
+    './src/analytics.ts',
+    './src/rank-tracker.ts',
+    './src/watcher.ts',
+    './src/bin.ts',
+    './src/normalize.ts',
+    './src/replay-file.ts',
+    './src/archive.ts',
+    './src/testing.ts',
+    './src/catalog.ts',
+    './src/calendar.ts',
+    './src/leaderboard.ts',
+    './src/profile.ts',
+    './src/observability.ts',
+    './src/videos.ts',
+    './src/league.ts',
+    './src/proxy.ts',
+    './src/cli.ts',
+  ],
+  format: ['cjs', 'esm'],
+  // `composite` projects must list every file, which the declaration build does not do.
+  dts: {compilerOptions: {composite: false}},
+  // Share one copy of the core between entry points so the default client and error classes are not duplicated.
+  splitting: true,
+});